@@ -1,19 +1,80 @@
 'use client';
 
-import { useState, useCallback, useEffect, useRef } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import { saveAs } from 'file-saver';
 import {
-  analyzeZip,
-  processZip,
-  createZipFromFiles,
+  readEntryNames,
+  toFolderFiles,
+  folderName,
+  previewEntryNames,
+  nativeCodePage,
+  ENCODING_CHOICES,
+  OUTPUT_ENCODING_CHOICES,
+  DEFAULT_LIMITS,
+  ARCHIVE_EXTENSIONS,
+  isSupportedArchive,
+  DiagnosticIssue,
   DiagnosticReport,
+  EntryOverride,
+  FolderFile,
+  IssueAction,
+  IssueType,
+  OutputProfile,
+  MetadataPolicy,
+  DataMode,
+  WindowsNamePolicy,
+  CollisionPolicy,
+  UnsafePathPolicy,
+  LimitAction,
+  OutputEncryption,
+  LimitViolation,
+  NameSource,
+  NestedArchive,
   ProcessingOptions,
+  ProcessingProgress,
+  ReviewEntry,
+  TaskControl,
+  UnsafePathProblem,
+  WindowsNameProblem,
+  ZipEntryRecord,
 } from '@/lib/zip-processor';
+import {
+  analyzeZipInWorker,
+  analyzeFolderInWorker,
+  processZipInWorker,
+  processZipToStreamInWorker,
+  createZipFromFilesInWorker,
+  createZipFromFilesToStreamInWorker,
+  isAbortError,
+} from '@/lib/zip-worker-client';
+import { readDroppedItems } from '@/lib/dropped-files';
+import { exportReportCsv, exportReportHtml, exportReportJson, ReportContext } from '@/lib/report-export';
 
 type Mode = 'zip' | 'folder';
 type Status = 'idle' | 'analyzing' | 'processing' | 'done' | 'error';
 type Theme = 'light' | 'dark' | 'system';
+type BatchStatus = 'queued' | 'analyzing' | 'ready' | 'processing' | 'done' | 'error';
+type ReviewFilter = 'all' | 'none' | IssueType;
+type ReviewSortKey = 'path' | 'issues' | 'size';
+type ReportFormat = 'json' | 'csv' | 'html';
+
+// One archive of a multi-archive drop, run through the same analyze and process steps as a single archive
+type BatchItem = {
+  file: File;
+  status: BatchStatus;
+  report: DiagnosticReport | null;
+  blob: Blob | null;
+  error: string | null;
+};
+
+// File System Access API (Chromium only), not in the TypeScript DOM typings
+type SaveFilePickerWindow = Window & {
+  showSaveFilePicker?: (options: {
+    suggestedName?: string;
+    types?: { description: string; accept: Record<string, string[]> }[];
+  }) => Promise<FileSystemFileHandle>;
+};
 
 const SUPPORTED_LANGS = ['ko', 'en', 'zh', 'ja', 'hi', 'fr', 'pt-br', 'de'] as const;
 type Lang = typeof SUPPORTED_LANGS[number];
@@ -54,23 +115,151 @@ type Messages = {
   processError: string;
   selectedFolder: string;
   fileCount: (count: number) => string;
-  encodingConfidenceLabel: string;
+  convertedToZip: (format: string) => string;
+  detectedEncodingLabel: (score: number) => string;
   macosArtifactsLabel: string;
   dsStoreLabel: string;
   encodingIssuesLabel: string;
+  mojibakeIssuesLabel: string;
+  normalizationIssuesLabel: string;
+  windowsNameIssuesLabel: string;
+  unsafePathIssuesLabel: string;
+  encryptedNotice: (count: number) => string;
   issuesTitle: string;
   moreIssues: (count: number) => string;
   issueTypeEncoding: string;
+  issueTypeMojibake: string;
+  issueTypeNormalization: string;
+  issueTypeWindows: string;
+  issueTypeUnsafePath: string;
+  issueTypeCollision: string;
+  issueTypeEncrypted: string;
+  collisionsTitle: string;
+  collisionDropped: string;
+  collisionError: string;
+  nestedTitle: string;
+  nestedIssueCount: (count: number) => string;
+  nestedKeptAsIs: string;
+  batchTitle: (count: number) => string;
+  batchIssueCount: (count: number) => string;
+  batchQueued: string;
+  batchReady: string;
+  batchDone: string;
+  batchFailed: string;
+  nameSourcesLabel: string;
+  nameSourceUtf8Flag: string;
+  nameSourceUnicodePath: string;
+  nameSourceUtf8: string;
+  nameSourceCodePage: string;
   issueTypeMacos: string;
   issueTypeDsStore: string;
   issueTypeHidden: string;
+  issueTypeExcluded: string;
+  issueTypeRenamed: string;
+  issueActionDetected: string;
+  issueActionRemoved: string;
+  issueActionRenamed: string;
+  issueActionKept: string;
+  issueMacosArtifact: string;
+  issueDsStore: string;
+  issueHiddenFile: string;
+  issueEncrypted: (method: string) => string;
+  issueReencrypted: (from: string, to: string) => string;
+  issueLegacyEncoding: string;
+  issueUnicodePathField: string;
+  issueDoubleEncoding: (layers: number) => string;
+  issueDecomposedUnicode: string;
+  issueUnsafePath: (problems: string) => string;
+  issueWindowsName: (problems: string) => string;
+  issueNameCollision: (other: string) => string;
+  issueNameCollisionNewer: (newer: string) => string;
+  issueManualExclude: string;
+  issueManualRename: string;
+  unsafeTraversal: string;
+  unsafeAbsolute: string;
+  unsafeDriveLetter: string;
+  unsafeBackslash: string;
+  unsafeNulByte: string;
+  unsafeSymlinkEscape: string;
+  windowsIllegalChars: string;
+  windowsTrailingDotSpace: string;
+  windowsReservedName: string;
+  windowsPathTooLong: string;
+  reviewTitle: string;
+  reviewSearch: string;
+  reviewFilterAll: string;
+  reviewFilterNone: string;
+  reviewColumnInclude: string;
+  reviewColumnName: string;
+  reviewColumnIssues: string;
+  reviewColumnSize: string;
+  reviewRename: string;
+  reviewMoreEntries: (count: number) => string;
+  reviewClearOverrides: (count: number) => string;
   optionsTitle: string;
   optionRemoveMac: string;
   optionRemoveDS: string;
   optionRemoveHidden: string;
   optionFixEncoding: string;
+  optionNormalizeUnicode: string;
+  optionEncoding: string;
+  encodingAuto: (detected: string | null) => string;
+  previewTitle: string;
+  optionOutputProfile: string;
+  profileUtf8: string;
+  profileLegacy: string;
+  profileCompat: string;
+  optionOutputEncoding: string;
+  outputEncodingDefault: (label: string) => string;
+  optionMetadata: string;
+  metadataPreserve: string;
+  metadataNormalize: string;
+  metadataReset: string;
+  optionDataMode: string;
+  dataModeCopy: string;
+  dataModeRecompress: string;
+  dataBytesLabel: (copied: string, recompressed: string) => string;
+  scanSummary: (entries: number, total: string, ratio: string, depth: number) => string;
+  limitsExceeded: string;
+  limitEntries: (value: number, max: number) => string;
+  limitTotalSize: (value: string, max: string) => string;
+  limitRatio: (value: string, max: string, path: string) => string;
+  limitNestingDepth: (value: number, max: number) => string;
+  limitError: string;
+  passwordError: string;
+  optionWindowsNames: string;
+  windowsNamesFullwidth: string;
+  windowsNamesUnderscore: string;
+  windowsNamesTruncate: string;
+  windowsNamesOff: string;
+  optionCollisions: string;
+  collisionsSuffix: string;
+  collisionsKeepNewest: string;
+  collisionsAbort: string;
+  optionUnsafePaths: string;
+  unsafePathsSanitize: string;
+  unsafePathsDrop: string;
+  optionLimitAction: string;
+  limitActionRefuse: string;
+  limitActionWarn: string;
+  optionPassword: string;
+  optionOutputEncryption: string;
+  outputEncryptionSame: string;
+  outputEncryptionZipCrypto: string;
+  outputEncryptionAes256: string;
+  optionNestedDepth: string;
+  nestedDepthOff: string;
+  nestedDepthLevels: (depth: number) => string;
   buttonProcess: string;
   buttonDownload: string;
+  buttonDownloadAll: string;
+  buttonDownloadOne: string;
+  buttonCancel: string;
+  optionSaveToDisk: string;
+  optionEmbedReport: string;
+  exportReportLabel: string;
+  savedToDisk: string;
+  progressLabel: (done: number, total: number) => string;
   statusAnalyzing: string;
   statusProcessing: string;
   feature1Title: string;
@@ -91,32 +280,160 @@ const MESSAGES: Record<Lang, Messages> = {
     subtitle: '맥에서 만든 ZIP 파일을 윈도우에서 깨지지 않게 변환합니다',
     zipMode: 'ZIP 파일 수정',
     folderMode: '폴더 → ZIP 생성',
-    uploadZip: 'ZIP 파일을 드래그하거나 클릭하여 선택',
+    uploadZip: '압축 파일(ZIP, TAR, TAR.GZ)이나 폴더를 드래그하거나 클릭하여 선택',
     uploadFolder: '클릭하여 폴더 선택',
     uploadZipDesc: '파일명 인코딩 문제를 자동으로 감지하고 수정합니다',
     uploadFolderDesc: '선택한 폴더를 윈도우 호환 ZIP으로 만듭니다',
-    zipOnlyError: 'ZIP 파일만 업로드할 수 있습니다.',
+    zipOnlyError: 'ZIP, TAR, TAR.GZ 파일만 업로드할 수 있습니다.',
     analyzeError: 'ZIP 파일 분석 중 오류가 발생했습니다.',
     processError: '처리 중 오류가 발생했습니다.',
     selectedFolder: '선택된 폴더',
     fileCount: (count) => `${count}개 파일`,
-    encodingConfidenceLabel: '인코딩 이슈 가능성',
+    convertedToZip: (format) => `${format} → ZIP 변환`,
+    detectedEncodingLabel: (score) => `감지된 인코딩 (신뢰도 ${score}%)`,
     macosArtifactsLabel: '__MACOSX 파일',
     dsStoreLabel: '.DS_Store 파일',
     encodingIssuesLabel: '인코딩 문제 파일',
+    mojibakeIssuesLabel: '이중 인코딩 파일',
+    normalizationIssuesLabel: '자모 분리 파일',
+    windowsNameIssuesLabel: 'Windows 비호환 이름',
+    unsafePathIssuesLabel: '안전하지 않은 경로',
+    encryptedNotice: (count) => `암호화된 파일 ${count}개: 처리하려면 비밀번호를 입력하세요.`,
     issuesTitle: '감지된 이슈',
     moreIssues: (count) => `외 ${count}개 이슈...`,
     issueTypeEncoding: '인코딩',
+    issueTypeMojibake: '이중 인코딩',
+    issueTypeNormalization: '정규화',
+    issueTypeWindows: 'Windows',
+    issueTypeUnsafePath: '위험 경로',
+    issueTypeCollision: '이름 충돌',
+    issueTypeEncrypted: '암호화',
+    collisionsTitle: '이름 충돌',
+    collisionDropped: '삭제됨',
+    collisionError: '이름이 겹치는 파일이 있어 처리를 중단했습니다. 충돌 처리 방식을 바꿔 다시 시도하세요.',
+    nestedTitle: '중첩 압축 파일',
+    nestedIssueCount: (count) => `문제 ${count}개`,
+    nestedKeptAsIs: '처리할 수 없어 그대로 두었습니다',
+    batchTitle: (count) => `압축 파일 ${count}개`,
+    batchIssueCount: (count) => `문제 ${count}개`,
+    batchQueued: '대기 중',
+    batchReady: '분석 완료',
+    batchDone: '완료',
+    batchFailed: '실패',
+    nameSourcesLabel: '파일명 출처',
+    nameSourceUtf8Flag: 'UTF-8 플래그',
+    nameSourceUnicodePath: '유니코드 경로 필드',
+    nameSourceUtf8: 'UTF-8 (플래그 없음)',
+    nameSourceCodePage: '코드 페이지',
     issueTypeMacos: 'MACOSX',
     issueTypeDsStore: 'DS_Store',
     issueTypeHidden: '숨김',
+    issueTypeExcluded: '직접 제외',
+    issueTypeRenamed: '직접 변경',
+    issueActionDetected: '감지됨',
+    issueActionRemoved: '삭제됨',
+    issueActionRenamed: '변경됨',
+    issueActionKept: '유지됨',
+    issueMacosArtifact: 'macOS 메타데이터 파일 (__MACOSX)',
+    issueDsStore: 'macOS 폴더 설정 파일 (.DS_Store)',
+    issueHiddenFile: '숨김 파일',
+    issueEncrypted: (method) => `암호화됨 (${method})`,
+    issueReencrypted: (from, to) => `다시 암호화됨 (${from} → ${to})`,
+    issueLegacyEncoding: '파일명 인코딩 문제 (UTF-8로 변환)',
+    issueUnicodePathField: '유니코드 경로 확장 필드의 파일명 사용',
+    issueDoubleEncoding: (layers) => `이중 인코딩된 파일명 (${layers}단계)`,
+    issueDecomposedUnicode: '유니코드 정규화 (NFD → NFC)',
+    issueUnsafePath: (problems) => `안전하지 않은 경로: ${problems}`,
+    issueWindowsName: (problems) => `Windows에서 풀 수 없는 이름: ${problems}`,
+    issueNameCollision: (other) => `이름 충돌: ${other} 파일과 같은 이름`,
+    issueNameCollisionNewer: (newer) => `이름 충돌: ${newer} 파일이 더 최근`,
+    issueManualExclude: '직접 제외',
+    issueManualRename: '이름 직접 변경',
+    unsafeTraversal: '상위 폴더 이동 (..)',
+    unsafeAbsolute: '절대 경로',
+    unsafeDriveLetter: '드라이브 문자',
+    unsafeBackslash: '역슬래시 구분자',
+    unsafeNulByte: 'NUL 문자',
+    unsafeSymlinkEscape: '압축 폴더 밖을 가리키는 심볼릭 링크',
+    windowsIllegalChars: '사용할 수 없는 문자',
+    windowsTrailingDotSpace: '끝의 마침표 또는 공백',
+    windowsReservedName: '예약된 장치 이름',
+    windowsPathTooLong: '경로 260자 초과',
+    reviewTitle: '파일별 검토',
+    reviewSearch: '파일명 검색',
+    reviewFilterAll: '모든 파일',
+    reviewFilterNone: '이슈 없음',
+    reviewColumnInclude: '포함',
+    reviewColumnName: '파일명',
+    reviewColumnIssues: '이슈',
+    reviewColumnSize: '크기',
+    reviewRename: '새 파일명',
+    reviewMoreEntries: (count) => `외 ${count}개 파일... 검색이나 필터로 좁혀 보세요`,
+    reviewClearOverrides: (count) => `직접 변경 ${count}개 되돌리기`,
     optionsTitle: '변환 옵션',
     optionRemoveMac: '__MACOSX 폴더 제거',
     optionRemoveDS: '.DS_Store 파일 제거',
     optionRemoveHidden: '숨김 파일 제거 (. 으로 시작하는 파일)',
     optionFixEncoding: '파일명 인코딩 자동 수정',
+    optionNormalizeUnicode: '분리된 한글/가나 자모 합치기 (NFD → NFC)',
+    optionEncoding: '파일명 인코딩',
+    encodingAuto: (detected) => `자동 감지 (${detected ?? '-'})`,
+    previewTitle: '파일명 미리보기',
+    optionOutputProfile: '출력 파일명 형식',
+    profileUtf8: '최신 UTF-8',
+    profileLegacy: '구형 Windows (시스템 코드 페이지)',
+    profileCompat: '최대 호환성 (코드 페이지 + 유니코드 경로)',
+    optionOutputEncoding: '코드 페이지',
+    outputEncodingDefault: (label) => `기본값 (${label})`,
+    optionMetadata: '날짜와 권한',
+    metadataPreserve: '그대로 유지',
+    metadataNormalize: '고정값으로 통일 (재현 가능한 빌드)',
+    metadataReset: '현재 시각으로 초기화',
+    optionDataMode: '파일 데이터',
+    dataModeCopy: '압축된 데이터 그대로 복사 (빠름)',
+    dataModeRecompress: '다시 압축',
+    dataBytesLabel: (copied, recompressed) => `그대로 복사 ${copied} · 다시 압축 ${recompressed}`,
+    scanSummary: (entries, total, ratio, depth) => `항목 ${entries}개 · 압축 해제 시 ${total} · 최대 압축률 ${ratio}:1 · 중첩 ${depth}단계`,
+    limitsExceeded: '안전 한도를 넘었습니다 (압축 폭탄일 수 있음)',
+    limitEntries: (value, max) => `항목 수 ${value}개 (한도 ${max}개)`,
+    limitTotalSize: (value, max) => `압축 해제 크기 ${value} (한도 ${max})`,
+    limitRatio: (value, max, path) => `압축률 ${value}:1 (한도 ${max}:1) — ${path}`,
+    limitNestingDepth: (value, max) => `압축 파일 중첩 ${value}단계 (한도 ${max}단계)`,
+    limitError: '안전 한도를 넘는 압축 파일이라 처리하지 않았습니다.',
+    passwordError: '비밀번호가 없거나 올바르지 않습니다.',
+    optionWindowsNames: 'Windows 비호환 이름',
+    windowsNamesFullwidth: '전각 문자로 바꾸기 (：？｜)',
+    windowsNamesUnderscore: '_로 바꾸기',
+    windowsNamesTruncate: '잘라내고 해시 붙이기',
+    windowsNamesOff: '그대로 두기',
+    optionCollisions: '이름 충돌',
+    collisionsSuffix: '번호 붙이기 (1)',
+    collisionsKeepNewest: '최신 파일만 유지',
+    collisionsAbort: '처리 중단',
+    optionUnsafePaths: '안전하지 않은 경로 (../, 절대 경로)',
+    unsafePathsSanitize: '안전한 상대 경로로 바꾸기',
+    unsafePathsDrop: '삭제',
+    optionLimitAction: '안전 한도 초과 시',
+    limitActionRefuse: '처리하지 않음',
+    limitActionWarn: '경고만 표시',
+    optionPassword: '비밀번호',
+    optionOutputEncryption: '출력 암호화',
+    outputEncryptionSame: '원본과 같게',
+    outputEncryptionZipCrypto: 'ZipCrypto (호환성 우선)',
+    outputEncryptionAes256: 'AES-256 (보안 우선)',
+    optionNestedDepth: '안쪽 ZIP 처리',
+    nestedDepthOff: '하지 않음 (그대로 복사)',
+    nestedDepthLevels: (depth) => `${depth}단계까지`,
     buttonProcess: '윈도우 호환 ZIP으로 변환',
     buttonDownload: '수정된 ZIP 다운로드',
+    buttonDownloadAll: '수정된 압축 파일 모두 다운로드 (ZIP)',
+    buttonDownloadOne: '다운로드',
+    buttonCancel: '취소',
+    optionSaveToDisk: '처리하면서 바로 디스크에 저장 (대용량 ZIP용)',
+    optionEmbedReport: '진단 보고서를 _fix-report.json으로 ZIP에 포함',
+    exportReportLabel: '보고서 내보내기',
+    savedToDisk: '수정된 ZIP이 저장되었습니다.',
+    progressLabel: (done, total) => `${done} / ${total}개 파일`,
     statusAnalyzing: '분석 중...',
     statusProcessing: '변환 중...',
     feature1Title: '인코딩 자동 수정',
@@ -135,32 +452,160 @@ const MESSAGES: Record<Lang, Messages> = {
     subtitle: 'Fix macOS ZIP filenames so they display correctly on Windows.',
     zipMode: 'Fix ZIP file',
     folderMode: 'Folder → ZIP',
-    uploadZip: 'Drag a ZIP file here or click to select',
+    uploadZip: 'Drag archives (ZIP, TAR, TAR.GZ) or a folder here or click to select',
     uploadFolder: 'Click to select a folder',
     uploadZipDesc: 'Detect and fix filename encoding issues automatically.',
     uploadFolderDesc: 'Create a Windows-compatible ZIP from the selected folder.',
-    zipOnlyError: 'Only ZIP files are supported.',
+    zipOnlyError: 'Only ZIP, TAR and TAR.GZ files are supported.',
     analyzeError: 'An error occurred while analyzing the ZIP.',
     processError: 'An error occurred during processing.',
     selectedFolder: 'Selected folder',
     fileCount: (count) => `${count} files`,
-    encodingConfidenceLabel: 'Encoding issue likelihood',
+    convertedToZip: (format) => `${format} → ZIP conversion`,
+    detectedEncodingLabel: (score) => `Detected encoding (${score}% confidence)`,
     macosArtifactsLabel: '__MACOSX files',
     dsStoreLabel: '.DS_Store files',
     encodingIssuesLabel: 'Files with encoding issues',
+    mojibakeIssuesLabel: 'Double-encoded names',
+    normalizationIssuesLabel: 'Decomposed (NFD) names',
+    windowsNameIssuesLabel: 'Windows-incompatible names',
+    unsafePathIssuesLabel: 'Unsafe paths',
+    encryptedNotice: (count) => `${count} encrypted files: enter the password to process them.`,
     issuesTitle: 'Detected Issues',
     moreIssues: (count) => `${count} more issues...`,
     issueTypeEncoding: 'Encoding',
+    issueTypeMojibake: 'Mojibake',
+    issueTypeNormalization: 'Normalization',
+    issueTypeWindows: 'Windows',
+    issueTypeUnsafePath: 'Unsafe path',
+    issueTypeCollision: 'Collision',
+    issueTypeEncrypted: 'Encrypted',
+    collisionsTitle: 'Name collisions',
+    collisionDropped: 'dropped',
+    collisionError: 'Processing stopped because some files would end up with the same name. Choose another collision handling and try again.',
+    nestedTitle: 'Nested archives',
+    nestedIssueCount: (count) => `${count} issues`,
+    nestedKeptAsIs: 'Could not be processed and was kept as is',
+    batchTitle: (count) => `${count} archives`,
+    batchIssueCount: (count) => `${count} issues`,
+    batchQueued: 'Queued',
+    batchReady: 'Analyzed',
+    batchDone: 'Done',
+    batchFailed: 'Failed',
+    nameSourcesLabel: 'Name sources',
+    nameSourceUtf8Flag: 'UTF-8 flag',
+    nameSourceUnicodePath: 'Unicode Path field',
+    nameSourceUtf8: 'UTF-8 (no flag)',
+    nameSourceCodePage: 'Code page',
     issueTypeMacos: 'MACOSX',
     issueTypeDsStore: 'DS_Store',
     issueTypeHidden: 'Hidden',
+    issueTypeExcluded: 'Excluded',
+    issueTypeRenamed: 'Renamed',
+    issueActionDetected: 'Detected',
+    issueActionRemoved: 'Removed',
+    issueActionRenamed: 'Renamed',
+    issueActionKept: 'Kept',
+    issueMacosArtifact: 'macOS metadata file (__MACOSX)',
+    issueDsStore: 'macOS folder settings file (.DS_Store)',
+    issueHiddenFile: 'Hidden file',
+    issueEncrypted: (method) => `Encrypted (${method})`,
+    issueReencrypted: (from, to) => `Encrypted again (${from} → ${to})`,
+    issueLegacyEncoding: 'Name in a legacy encoding (converted to UTF-8)',
+    issueUnicodePathField: 'Name taken from the Unicode Path extra field',
+    issueDoubleEncoding: (layers) => `Name encoded more than once (${layers} layers)`,
+    issueDecomposedUnicode: 'Unicode normalization (NFD → NFC)',
+    issueUnsafePath: (problems) => `Unsafe path: ${problems}`,
+    issueWindowsName: (problems) => `Name Windows cannot extract: ${problems}`,
+    issueNameCollision: (other) => `Name collision: same name as ${other}`,
+    issueNameCollisionNewer: (newer) => `Name collision: ${newer} is newer`,
+    issueManualExclude: 'Excluded by hand',
+    issueManualRename: 'Renamed by hand',
+    unsafeTraversal: 'parent folder (..)',
+    unsafeAbsolute: 'absolute path',
+    unsafeDriveLetter: 'drive letter',
+    unsafeBackslash: 'backslash separator',
+    unsafeNulByte: 'NUL character',
+    unsafeSymlinkEscape: 'symbolic link pointing outside the archive',
+    windowsIllegalChars: 'reserved characters',
+    windowsTrailingDotSpace: 'trailing dot or space',
+    windowsReservedName: 'reserved device name',
+    windowsPathTooLong: 'path longer than 260 characters',
+    reviewTitle: 'Review files',
+    reviewSearch: 'Search file names',
+    reviewFilterAll: 'All files',
+    reviewFilterNone: 'No issues',
+    reviewColumnInclude: 'Include',
+    reviewColumnName: 'Name',
+    reviewColumnIssues: 'Issues',
+    reviewColumnSize: 'Size',
+    reviewRename: 'New name',
+    reviewMoreEntries: (count) => `${count} more files... narrow the list with the search or filter`,
+    reviewClearOverrides: (count) => `Undo ${count} manual changes`,
     optionsTitle: 'Conversion Options',
     optionRemoveMac: 'Remove __MACOSX folder',
     optionRemoveDS: 'Remove .DS_Store files',
     optionRemoveHidden: 'Remove hidden files (starting with .)',
     optionFixEncoding: 'Auto-fix filename encoding',
+    optionNormalizeUnicode: 'Recompose split Hangul/kana characters (NFD → NFC)',
+    optionEncoding: 'Filename encoding',
+    encodingAuto: (detected) => `Auto-detect (${detected ?? '-'})`,
+    previewTitle: 'Filename preview',
+    optionOutputProfile: 'Output filename format',
+    profileUtf8: 'Modern UTF-8',
+    profileLegacy: 'Legacy Windows (native code page)',
+    profileCompat: 'Maximum compatibility (code page + Unicode Path)',
+    optionOutputEncoding: 'Code page',
+    outputEncodingDefault: (label) => `Default (${label})`,
+    optionMetadata: 'Dates and permissions',
+    metadataPreserve: 'Keep as is',
+    metadataNormalize: 'Normalize (reproducible builds)',
+    metadataReset: 'Reset to current time',
+    optionDataMode: 'File data',
+    dataModeCopy: 'Copy compressed data as-is (fast)',
+    dataModeRecompress: 'Recompress',
+    dataBytesLabel: (copied, recompressed) => `Copied as-is ${copied} · Recompressed ${recompressed}`,
+    scanSummary: (entries, total, ratio, depth) => `${entries} entries · ${total} uncompressed · max ratio ${ratio}:1 · nesting depth ${depth}`,
+    limitsExceeded: 'Safety limits exceeded (this may be a zip bomb)',
+    limitEntries: (value, max) => `${value} entries (limit ${max})`,
+    limitTotalSize: (value, max) => `${value} uncompressed (limit ${max})`,
+    limitRatio: (value, max, path) => `Compression ratio ${value}:1 (limit ${max}:1) — ${path}`,
+    limitNestingDepth: (value, max) => `Archives nested ${value} levels deep (limit ${max})`,
+    limitError: 'The archive exceeds the safety limits and was not processed.',
+    passwordError: 'The password is missing or wrong.',
+    optionWindowsNames: 'Windows-incompatible names',
+    windowsNamesFullwidth: 'Replace with full-width lookalikes (：？｜)',
+    windowsNamesUnderscore: 'Replace with _',
+    windowsNamesTruncate: 'Truncate with a hash suffix',
+    windowsNamesOff: 'Leave as is',
+    optionCollisions: 'Name collisions',
+    collisionsSuffix: 'Add a number (1)',
+    collisionsKeepNewest: 'Keep the newest file',
+    collisionsAbort: 'Stop processing',
+    optionUnsafePaths: 'Unsafe paths (../, absolute paths)',
+    unsafePathsSanitize: 'Rewrite to a safe relative path',
+    unsafePathsDrop: 'Remove',
+    optionLimitAction: 'When safety limits are exceeded',
+    limitActionRefuse: 'Refuse to process',
+    limitActionWarn: 'Only warn',
+    optionPassword: 'Password',
+    optionOutputEncryption: 'Output encryption',
+    outputEncryptionSame: 'Same as the original',
+    outputEncryptionZipCrypto: 'ZipCrypto (most compatible)',
+    outputEncryptionAes256: 'AES-256 (most secure)',
+    optionNestedDepth: 'Inner ZIPs',
+    nestedDepthOff: 'Copy as they are',
+    nestedDepthLevels: (depth) => (depth === 1 ? '1 level deep' : `${depth} levels deep`),
     buttonProcess: 'Convert to Windows-compatible ZIP',
     buttonDownload: 'Download fixed ZIP',
+    buttonDownloadAll: 'Download all fixed archives (ZIP)',
+    buttonDownloadOne: 'Download',
+    buttonCancel: 'Cancel',
+    optionSaveToDisk: 'Save straight to disk while processing (for very large ZIPs)',
+    optionEmbedReport: 'Include the report in the ZIP as _fix-report.json',
+    exportReportLabel: 'Export report',
+    savedToDisk: 'The fixed ZIP has been saved.',
+    progressLabel: (done, total) => `${done} / ${total} files`,
     statusAnalyzing: 'Analyzing...',
     statusProcessing: 'Converting...',
     feature1Title: 'Automatic encoding fix',
@@ -179,32 +624,160 @@ const MESSAGES: Record<Lang, Messages> = {
     subtitle: '修复 macOS 生成的 ZIP 文件名，使其在 Windows 上正常显示。',
     zipMode: '修复 ZIP 文件',
     folderMode: '文件夹 → ZIP',
-    uploadZip: '拖拽 ZIP 文件或点击选择',
+    uploadZip: '拖拽压缩包（ZIP、TAR、TAR.GZ）或文件夹，或点击选择',
     uploadFolder: '点击选择文件夹',
     uploadZipDesc: '自动检测并修复文件名编码问题。',
     uploadFolderDesc: '将所选文件夹生成兼容 Windows 的 ZIP。',
-    zipOnlyError: '仅支持 ZIP 文件。',
+    zipOnlyError: '仅支持 ZIP、TAR 和 TAR.GZ 文件。',
     analyzeError: '分析 ZIP 时发生错误。',
     processError: '处理过程中发生错误。',
     selectedFolder: '已选择的文件夹',
     fileCount: (count) => `${count} 个文件`,
-    encodingConfidenceLabel: '编码问题可能性',
+    convertedToZip: (format) => `${format} → ZIP 转换`,
+    detectedEncodingLabel: (score) => `检测到的编码（置信度 ${score}%）`,
     macosArtifactsLabel: '__MACOSX 文件',
     dsStoreLabel: '.DS_Store 文件',
     encodingIssuesLabel: '编码问题文件',
+    mojibakeIssuesLabel: '双重编码文件名',
+    normalizationIssuesLabel: '分解形式 (NFD) 文件名',
+    windowsNameIssuesLabel: 'Windows 不兼容的名称',
+    unsafePathIssuesLabel: '不安全的路径',
+    encryptedNotice: (count) => `${count} 个加密文件：请输入密码后再处理。`,
     issuesTitle: '检测到的问题',
     moreIssues: (count) => `还有 ${count} 个问题...`,
     issueTypeEncoding: '编码',
+    issueTypeMojibake: '双重编码',
+    issueTypeNormalization: '规范化',
+    issueTypeWindows: 'Windows',
+    issueTypeUnsafePath: '不安全路径',
+    issueTypeCollision: '名称冲突',
+    issueTypeEncrypted: '加密',
+    collisionsTitle: '名称冲突',
+    collisionDropped: '已删除',
+    collisionError: '部分文件名称会重复，处理已中止。请更改冲突处理方式后重试。',
+    nestedTitle: '嵌套压缩包',
+    nestedIssueCount: (count) => `${count} 个问题`,
+    nestedKeptAsIs: '无法处理，已原样保留',
+    batchTitle: (count) => `${count} 个压缩包`,
+    batchIssueCount: (count) => `${count} 个问题`,
+    batchQueued: '等待中',
+    batchReady: '已分析',
+    batchDone: '完成',
+    batchFailed: '失败',
+    nameSourcesLabel: '文件名来源',
+    nameSourceUtf8Flag: 'UTF-8 标志',
+    nameSourceUnicodePath: 'Unicode 路径字段',
+    nameSourceUtf8: 'UTF-8（无标志）',
+    nameSourceCodePage: '代码页',
     issueTypeMacos: 'MACOSX',
     issueTypeDsStore: 'DS_Store',
     issueTypeHidden: '隐藏',
+    issueTypeExcluded: '手动排除',
+    issueTypeRenamed: '手动重命名',
+    issueActionDetected: '已检测',
+    issueActionRemoved: '已删除',
+    issueActionRenamed: '已重命名',
+    issueActionKept: '已保留',
+    issueMacosArtifact: 'macOS 元数据文件 (__MACOSX)',
+    issueDsStore: 'macOS 文件夹设置文件 (.DS_Store)',
+    issueHiddenFile: '隐藏文件',
+    issueEncrypted: (method) => `已加密 (${method})`,
+    issueReencrypted: (from, to) => `已重新加密 (${from} → ${to})`,
+    issueLegacyEncoding: '文件名使用旧编码 (转换为 UTF-8)',
+    issueUnicodePathField: '使用 Unicode 路径扩展字段中的文件名',
+    issueDoubleEncoding: (layers) => `文件名被重复编码 (${layers} 层)`,
+    issueDecomposedUnicode: 'Unicode 规范化 (NFD → NFC)',
+    issueUnsafePath: (problems) => `不安全路径: ${problems}`,
+    issueWindowsName: (problems) => `Windows 无法解压的名称: ${problems}`,
+    issueNameCollision: (other) => `名称冲突: 与 ${other} 同名`,
+    issueNameCollisionNewer: (newer) => `名称冲突: ${newer} 更新`,
+    issueManualExclude: '手动排除',
+    issueManualRename: '手动重命名',
+    unsafeTraversal: '上级目录 (..)',
+    unsafeAbsolute: '绝对路径',
+    unsafeDriveLetter: '驱动器号',
+    unsafeBackslash: '反斜杠分隔符',
+    unsafeNulByte: 'NUL 字符',
+    unsafeSymlinkEscape: '指向压缩包外部的符号链接',
+    windowsIllegalChars: '不可用字符',
+    windowsTrailingDotSpace: '末尾的句点或空格',
+    windowsReservedName: '保留设备名',
+    windowsPathTooLong: '路径超过 260 个字符',
+    reviewTitle: '逐个检查文件',
+    reviewSearch: '搜索文件名',
+    reviewFilterAll: '全部文件',
+    reviewFilterNone: '无问题',
+    reviewColumnInclude: '包含',
+    reviewColumnName: '文件名',
+    reviewColumnIssues: '问题',
+    reviewColumnSize: '大小',
+    reviewRename: '新文件名',
+    reviewMoreEntries: (count) => `还有 ${count} 个文件... 请用搜索或筛选缩小范围`,
+    reviewClearOverrides: (count) => `撤销 ${count} 项手动更改`,
     optionsTitle: '转换选项',
     optionRemoveMac: '移除 __MACOSX 文件夹',
     optionRemoveDS: '移除 .DS_Store 文件',
     optionRemoveHidden: '移除隐藏文件（以 . 开头）',
     optionFixEncoding: '自动修复文件名编码',
+    optionNormalizeUnicode: '合并被分解的字符 (NFD → NFC)',
+    optionEncoding: '文件名编码',
+    encodingAuto: (detected) => `自动检测（${detected ?? '-'}）`,
+    previewTitle: '文件名预览',
+    optionOutputProfile: '输出文件名格式',
+    profileUtf8: '现代 UTF-8',
+    profileLegacy: '旧版 Windows（系统代码页）',
+    profileCompat: '最大兼容性（代码页 + Unicode 路径）',
+    optionOutputEncoding: '代码页',
+    outputEncodingDefault: (label) => `默认（${label}）`,
+    optionMetadata: '日期和权限',
+    metadataPreserve: '保持原样',
+    metadataNormalize: '统一为固定值（可复现构建）',
+    metadataReset: '重置为当前时间',
+    optionDataMode: '文件数据',
+    dataModeCopy: '原样复制压缩数据（快速）',
+    dataModeRecompress: '重新压缩',
+    dataBytesLabel: (copied, recompressed) => `原样复制 ${copied} · 重新压缩 ${recompressed}`,
+    scanSummary: (entries, total, ratio, depth) => `${entries} 个条目 · 解压后 ${total} · 最大压缩比 ${ratio}:1 · 嵌套 ${depth} 层`,
+    limitsExceeded: '超出安全限制（可能是压缩炸弹）',
+    limitEntries: (value, max) => `${value} 个条目（限制 ${max}）`,
+    limitTotalSize: (value, max) => `解压后 ${value}（限制 ${max}）`,
+    limitRatio: (value, max, path) => `压缩比 ${value}:1（限制 ${max}:1）— ${path}`,
+    limitNestingDepth: (value, max) => `压缩包嵌套 ${value} 层（限制 ${max}）`,
+    limitError: '该压缩包超出安全限制，未进行处理。',
+    passwordError: '密码缺失或不正确。',
+    optionWindowsNames: 'Windows 不兼容的名称',
+    windowsNamesFullwidth: '替换为全角字符 (：？｜)',
+    windowsNamesUnderscore: '替换为 _',
+    windowsNamesTruncate: '截断并添加哈希后缀',
+    windowsNamesOff: '保持不变',
+    optionCollisions: '名称冲突',
+    collisionsSuffix: '添加编号 (1)',
+    collisionsKeepNewest: '仅保留最新文件',
+    collisionsAbort: '中止处理',
+    optionUnsafePaths: '不安全的路径 (../、绝对路径)',
+    unsafePathsSanitize: '改写为安全的相对路径',
+    unsafePathsDrop: '删除',
+    optionLimitAction: '超出安全限制时',
+    limitActionRefuse: '拒绝处理',
+    limitActionWarn: '仅警告',
+    optionPassword: '密码',
+    optionOutputEncryption: '输出加密方式',
+    outputEncryptionSame: '与原文件相同',
+    outputEncryptionZipCrypto: 'ZipCrypto（兼容性优先）',
+    outputEncryptionAes256: 'AES-256（安全性优先）',
+    optionNestedDepth: '内部 ZIP',
+    nestedDepthOff: '不处理（原样复制）',
+    nestedDepthLevels: (depth) => `最多 ${depth} 层`,
     buttonProcess: '转换为 Windows 兼容 ZIP',
     buttonDownload: '下载修复后的 ZIP',
+    buttonDownloadAll: '下载全部修复后的压缩包（ZIP）',
+    buttonDownloadOne: '下载',
+    buttonCancel: '取消',
+    optionSaveToDisk: '处理时直接保存到磁盘（适用于超大 ZIP）',
+    optionEmbedReport: '将诊断报告以 _fix-report.json 放入 ZIP',
+    exportReportLabel: '导出报告',
+    savedToDisk: '修复后的 ZIP 已保存。',
+    progressLabel: (done, total) => `${done} / ${total} 个文件`,
     statusAnalyzing: '分析中...',
     statusProcessing: '转换中...',
     feature1Title: '自动修复编码',
@@ -223,32 +796,160 @@ const MESSAGES: Record<Lang, Messages> = {
     subtitle: 'macOSで作成したZIPをWindowsで正しく表示させます。',
     zipMode: 'ZIPファイル修正',
     folderMode: 'フォルダ → ZIP',
-    uploadZip: 'ZIPファイルをドラッグするかクリックして選択',
+    uploadZip: 'アーカイブ（ZIP、TAR、TAR.GZ）やフォルダをドラッグするかクリックして選択',
     uploadFolder: 'クリックしてフォルダを選択',
     uploadZipDesc: 'ファイル名の文字化けを自動検出・修正します。',
     uploadFolderDesc: '選択したフォルダをWindows互換ZIPにします。',
-    zipOnlyError: 'ZIPファイルのみアップロードできます。',
+    zipOnlyError: 'ZIP、TAR、TAR.GZ ファイルのみアップロードできます。',
     analyzeError: 'ZIPの解析中にエラーが発生しました。',
     processError: '処理中にエラーが発生しました。',
     selectedFolder: '選択されたフォルダ',
     fileCount: (count) => `${count} 件のファイル`,
-    encodingConfidenceLabel: '文字化けの可能性',
+    convertedToZip: (format) => `${format} → ZIP 変換`,
+    detectedEncodingLabel: (score) => `検出された文字コード（信頼度 ${score}%）`,
     macosArtifactsLabel: '__MACOSX ファイル',
     dsStoreLabel: '.DS_Store ファイル',
     encodingIssuesLabel: '文字化けファイル',
+    mojibakeIssuesLabel: '二重エンコードのファイル',
+    normalizationIssuesLabel: '濁点分離 (NFD) ファイル',
+    windowsNameIssuesLabel: 'Windows非対応の名前',
+    unsafePathIssuesLabel: '安全でないパス',
+    encryptedNotice: (count) => `暗号化されたファイル ${count} 件：処理するにはパスワードを入力してください。`,
     issuesTitle: '検出された問題',
     moreIssues: (count) => `他 ${count} 件...`,
     issueTypeEncoding: '文字化け',
+    issueTypeMojibake: '二重エンコード',
+    issueTypeNormalization: '正規化',
+    issueTypeWindows: 'Windows',
+    issueTypeUnsafePath: '危険なパス',
+    issueTypeCollision: '名前の衝突',
+    issueTypeEncrypted: '暗号化',
+    collisionsTitle: '名前の衝突',
+    collisionDropped: '削除',
+    collisionError: '同じ名前になるファイルがあるため処理を中止しました。衝突の処理方法を変更して再試行してください。',
+    nestedTitle: '入れ子のアーカイブ',
+    nestedIssueCount: (count) => `問題 ${count} 件`,
+    nestedKeptAsIs: '処理できなかったためそのまま残しました',
+    batchTitle: (count) => `アーカイブ ${count} 件`,
+    batchIssueCount: (count) => `問題 ${count} 件`,
+    batchQueued: '待機中',
+    batchReady: '分析済み',
+    batchDone: '完了',
+    batchFailed: '失敗',
+    nameSourcesLabel: 'ファイル名の取得元',
+    nameSourceUtf8Flag: 'UTF-8 フラグ',
+    nameSourceUnicodePath: 'Unicode パスフィールド',
+    nameSourceUtf8: 'UTF-8（フラグなし）',
+    nameSourceCodePage: 'コードページ',
     issueTypeMacos: 'MACOSX',
     issueTypeDsStore: 'DS_Store',
     issueTypeHidden: '隠し',
+    issueTypeExcluded: '手動で除外',
+    issueTypeRenamed: '手動で変更',
+    issueActionDetected: '検出',
+    issueActionRemoved: '削除',
+    issueActionRenamed: '変更',
+    issueActionKept: '維持',
+    issueMacosArtifact: 'macOS メタデータファイル (__MACOSX)',
+    issueDsStore: 'macOS フォルダ設定ファイル (.DS_Store)',
+    issueHiddenFile: '隠しファイル',
+    issueEncrypted: (method) => `暗号化 (${method})`,
+    issueReencrypted: (from, to) => `再暗号化 (${from} → ${to})`,
+    issueLegacyEncoding: '旧エンコードのファイル名 (UTF-8 に変換)',
+    issueUnicodePathField: 'Unicode パス拡張フィールドのファイル名を使用',
+    issueDoubleEncoding: (layers) => `二重エンコードされたファイル名 (${layers} 段階)`,
+    issueDecomposedUnicode: 'Unicode 正規化 (NFD → NFC)',
+    issueUnsafePath: (problems) => `危険なパス: ${problems}`,
+    issueWindowsName: (problems) => `Windows で展開できない名前: ${problems}`,
+    issueNameCollision: (other) => `名前の衝突: ${other} と同じ名前`,
+    issueNameCollisionNewer: (newer) => `名前の衝突: ${newer} の方が新しい`,
+    issueManualExclude: '手動で除外',
+    issueManualRename: '手動で名前を変更',
+    unsafeTraversal: '親フォルダへの移動 (..)',
+    unsafeAbsolute: '絶対パス',
+    unsafeDriveLetter: 'ドライブ文字',
+    unsafeBackslash: 'バックスラッシュ区切り',
+    unsafeNulByte: 'NUL 文字',
+    unsafeSymlinkEscape: 'アーカイブ外を指すシンボリックリンク',
+    windowsIllegalChars: '使用できない文字',
+    windowsTrailingDotSpace: '末尾のピリオドまたはスペース',
+    windowsReservedName: '予約済みデバイス名',
+    windowsPathTooLong: 'パスが 260 文字を超過',
+    reviewTitle: 'ファイルごとの確認',
+    reviewSearch: 'ファイル名を検索',
+    reviewFilterAll: 'すべてのファイル',
+    reviewFilterNone: '問題なし',
+    reviewColumnInclude: '含める',
+    reviewColumnName: 'ファイル名',
+    reviewColumnIssues: '問題',
+    reviewColumnSize: 'サイズ',
+    reviewRename: '新しいファイル名',
+    reviewMoreEntries: (count) => `他 ${count} 件... 検索やフィルタで絞り込んでください`,
+    reviewClearOverrides: (count) => `手動の変更 ${count} 件を元に戻す`,
     optionsTitle: '変換オプション',
     optionRemoveMac: '__MACOSX フォルダを削除',
     optionRemoveDS: '.DS_Store ファイルを削除',
     optionRemoveHidden: '隠しファイルを削除（.で始まる）',
     optionFixEncoding: 'ファイル名の自動修正',
+    optionNormalizeUnicode: '分離した濁点・ハングルを結合 (NFD → NFC)',
+    optionEncoding: 'ファイル名の文字コード',
+    encodingAuto: (detected) => `自動検出（${detected ?? '-'}）`,
+    previewTitle: 'ファイル名プレビュー',
+    optionOutputProfile: '出力ファイル名の形式',
+    profileUtf8: 'モダン UTF-8',
+    profileLegacy: '旧 Windows（システムのコードページ）',
+    profileCompat: '最大互換（コードページ + Unicode パス）',
+    optionOutputEncoding: 'コードページ',
+    outputEncodingDefault: (label) => `既定（${label}）`,
+    optionMetadata: '日時とアクセス権',
+    metadataPreserve: 'そのまま保持',
+    metadataNormalize: '固定値に統一（再現可能なビルド）',
+    metadataReset: '現在の日時にリセット',
+    optionDataMode: 'ファイルデータ',
+    dataModeCopy: '圧縮データをそのままコピー（高速）',
+    dataModeRecompress: '再圧縮',
+    dataBytesLabel: (copied, recompressed) => `そのままコピー ${copied} · 再圧縮 ${recompressed}`,
+    scanSummary: (entries, total, ratio, depth) => `${entries} 項目 · 展開後 ${total} · 最大圧縮率 ${ratio}:1 · 入れ子 ${depth} 段`,
+    limitsExceeded: '安全上の上限を超えています（ZIP爆弾の可能性があります）',
+    limitEntries: (value, max) => `${value} 項目（上限 ${max}）`,
+    limitTotalSize: (value, max) => `展開後 ${value}（上限 ${max}）`,
+    limitRatio: (value, max, path) => `圧縮率 ${value}:1（上限 ${max}:1）— ${path}`,
+    limitNestingDepth: (value, max) => `アーカイブの入れ子 ${value} 段（上限 ${max}）`,
+    limitError: '安全上の上限を超えるアーカイブのため処理しませんでした。',
+    passwordError: 'パスワードが入力されていないか、正しくありません。',
+    optionWindowsNames: 'Windows非対応の名前',
+    windowsNamesFullwidth: '全角文字に置き換え (：？｜)',
+    windowsNamesUnderscore: '_ に置き換え',
+    windowsNamesTruncate: '切り詰めてハッシュを付加',
+    windowsNamesOff: 'そのままにする',
+    optionCollisions: '名前の衝突',
+    collisionsSuffix: '番号を付ける (1)',
+    collisionsKeepNewest: '最新のファイルのみ残す',
+    collisionsAbort: '処理を中止',
+    optionUnsafePaths: '安全でないパス (../、絶対パス)',
+    unsafePathsSanitize: '安全な相対パスに書き換え',
+    unsafePathsDrop: '削除',
+    optionLimitAction: '安全上の上限を超えた場合',
+    limitActionRefuse: '処理しない',
+    limitActionWarn: '警告のみ',
+    optionPassword: 'パスワード',
+    optionOutputEncryption: '出力の暗号化',
+    outputEncryptionSame: '元のまま',
+    outputEncryptionZipCrypto: 'ZipCrypto（互換性重視）',
+    outputEncryptionAes256: 'AES-256（安全性重視）',
+    optionNestedDepth: '内側の ZIP',
+    nestedDepthOff: '処理しない（そのままコピー）',
+    nestedDepthLevels: (depth) => `${depth} 階層まで`,
     buttonProcess: 'Windows互換ZIPに変換',
     buttonDownload: '修正済みZIPをダウンロード',
+    buttonDownloadAll: '修正済みアーカイブをまとめてダウンロード（ZIP）',
+    buttonDownloadOne: 'ダウンロード',
+    buttonCancel: 'キャンセル',
+    optionSaveToDisk: '処理しながらディスクへ直接保存（大容量ZIP向け）',
+    optionEmbedReport: '診断レポートを _fix-report.json として ZIP に含める',
+    exportReportLabel: 'レポートを書き出す',
+    savedToDisk: '修正済みZIPを保存しました。',
+    progressLabel: (done, total) => `${done} / ${total} ファイル`,
     statusAnalyzing: '解析中...',
     statusProcessing: '変換中...',
     feature1Title: '文字化け自動修正',
@@ -267,32 +968,160 @@ const MESSAGES: Record<Lang, Messages> = {
     subtitle: 'macOS से बनी ZIP फ़ाइलों के नाम Windows पर सही दिखें।',
     zipMode: 'ZIP फ़ाइल ठीक करें',
     folderMode: 'फ़ोल्डर → ZIP',
-    uploadZip: 'ZIP फ़ाइल को ड्रैग करें या क्लिक करके चुनें',
+    uploadZip: 'आर्काइव (ZIP, TAR, TAR.GZ) या फ़ोल्डर को ड्रैग करें या क्लिक करके चुनें',
     uploadFolder: 'क्लिक करके फ़ोल्डर चुनें',
     uploadZipDesc: 'फ़ाइल नाम एन्कोडिंग समस्याएँ स्वतः पहचानकर ठीक करता है।',
     uploadFolderDesc: 'चुने गए फ़ोल्डर से Windows-संगत ZIP बनाता है।',
-    zipOnlyError: 'केवल ZIP फ़ाइलें समर्थित हैं।',
+    zipOnlyError: 'केवल ZIP, TAR और TAR.GZ फ़ाइलें समर्थित हैं।',
     analyzeError: 'ZIP का विश्लेषण करते समय त्रुटि हुई।',
     processError: 'प्रोसेसिंग के दौरान त्रुटि हुई।',
     selectedFolder: 'चुना गया फ़ोल्डर',
     fileCount: (count) => `${count} फ़ाइलें`,
-    encodingConfidenceLabel: 'एन्कोडिंग समस्या की संभावना',
+    convertedToZip: (format) => `${format} → ZIP रूपांतरण`,
+    detectedEncodingLabel: (score) => `पहचानी गई एन्कोडिंग (विश्वसनीयता ${score}%)`,
     macosArtifactsLabel: '__MACOSX फ़ाइलें',
     dsStoreLabel: '.DS_Store फ़ाइलें',
     encodingIssuesLabel: 'एन्कोडिंग समस्या वाली फ़ाइलें',
+    mojibakeIssuesLabel: 'दोहरी एन्कोडिंग वाले नाम',
+    normalizationIssuesLabel: 'विघटित (NFD) नाम',
+    windowsNameIssuesLabel: 'Windows-असंगत नाम',
+    unsafePathIssuesLabel: 'असुरक्षित पथ',
+    encryptedNotice: (count) => `${count} एन्क्रिप्टेड फ़ाइलें: प्रोसेस करने के लिए पासवर्ड दर्ज करें।`,
     issuesTitle: 'पाई गई समस्याएँ',
     moreIssues: (count) => `अतिरिक्त ${count} समस्याएँ...`,
     issueTypeEncoding: 'एन्कोडिंग',
+    issueTypeMojibake: 'दोहरी एन्कोडिंग',
+    issueTypeNormalization: 'सामान्यीकरण',
+    issueTypeWindows: 'Windows',
+    issueTypeUnsafePath: 'असुरक्षित पथ',
+    issueTypeCollision: 'नाम टकराव',
+    issueTypeEncrypted: 'एन्क्रिप्टेड',
+    collisionsTitle: 'नाम टकराव',
+    collisionDropped: 'हटाया गया',
+    collisionError: 'कुछ फ़ाइलों का नाम एक जैसा हो जाता, इसलिए प्रोसेसिंग रोक दी गई। टकराव संभालने का दूसरा तरीका चुनकर फिर से प्रयास करें।',
+    nestedTitle: 'नेस्टेड आर्काइव',
+    nestedIssueCount: (count) => `${count} समस्याएँ`,
+    nestedKeptAsIs: 'प्रोसेस नहीं हो सका, इसलिए जैसा था वैसा रखा गया',
+    batchTitle: (count) => `${count} आर्काइव`,
+    batchIssueCount: (count) => `${count} समस्याएँ`,
+    batchQueued: 'कतार में',
+    batchReady: 'विश्लेषण हो गया',
+    batchDone: 'पूरा हुआ',
+    batchFailed: 'विफल',
+    nameSourcesLabel: 'फ़ाइल नाम का स्रोत',
+    nameSourceUtf8Flag: 'UTF-8 फ़्लैग',
+    nameSourceUnicodePath: 'यूनिकोड पथ फ़ील्ड',
+    nameSourceUtf8: 'UTF-8 (फ़्लैग नहीं)',
+    nameSourceCodePage: 'कोड पेज',
     issueTypeMacos: 'MACOSX',
     issueTypeDsStore: 'DS_Store',
     issueTypeHidden: 'छिपा',
+    issueTypeExcluded: 'हाथ से हटाया गया',
+    issueTypeRenamed: 'हाथ से बदला गया',
+    issueActionDetected: 'पता चला',
+    issueActionRemoved: 'हटाया गया',
+    issueActionRenamed: 'नाम बदला गया',
+    issueActionKept: 'रखा गया',
+    issueMacosArtifact: 'macOS मेटाडेटा फ़ाइल (__MACOSX)',
+    issueDsStore: 'macOS फ़ोल्डर सेटिंग फ़ाइल (.DS_Store)',
+    issueHiddenFile: 'छिपी हुई फ़ाइल',
+    issueEncrypted: (method) => `एन्क्रिप्टेड (${method})`,
+    issueReencrypted: (from, to) => `फिर से एन्क्रिप्ट किया गया (${from} → ${to})`,
+    issueLegacyEncoding: 'पुरानी एन्कोडिंग वाला नाम (UTF-8 में बदला गया)',
+    issueUnicodePathField: 'Unicode Path एक्स्ट्रा फ़ील्ड से लिया गया नाम',
+    issueDoubleEncoding: (layers) => `एक से अधिक बार एन्कोड किया गया नाम (${layers} परतें)`,
+    issueDecomposedUnicode: 'यूनिकोड सामान्यीकरण (NFD → NFC)',
+    issueUnsafePath: (problems) => `असुरक्षित पथ: ${problems}`,
+    issueWindowsName: (problems) => `ऐसा नाम जिसे Windows नहीं निकाल सकता: ${problems}`,
+    issueNameCollision: (other) => `नाम टकराव: ${other} जैसा ही नाम`,
+    issueNameCollisionNewer: (newer) => `नाम टकराव: ${newer} नई है`,
+    issueManualExclude: 'हाथ से बाहर रखा गया',
+    issueManualRename: 'हाथ से नाम बदला गया',
+    unsafeTraversal: 'ऊपरी फ़ोल्डर (..)',
+    unsafeAbsolute: 'पूर्ण पथ',
+    unsafeDriveLetter: 'ड्राइव अक्षर',
+    unsafeBackslash: 'बैकस्लैश विभाजक',
+    unsafeNulByte: 'NUL वर्ण',
+    unsafeSymlinkEscape: 'आर्काइव के बाहर इशारा करने वाला सिम्बॉलिक लिंक',
+    windowsIllegalChars: 'अमान्य वर्ण',
+    windowsTrailingDotSpace: 'अंत में बिंदु या स्पेस',
+    windowsReservedName: 'आरक्षित डिवाइस नाम',
+    windowsPathTooLong: 'पथ 260 वर्णों से लंबा',
+    reviewTitle: 'फ़ाइलों की समीक्षा',
+    reviewSearch: 'फ़ाइल नाम खोजें',
+    reviewFilterAll: 'सभी फ़ाइलें',
+    reviewFilterNone: 'कोई समस्या नहीं',
+    reviewColumnInclude: 'शामिल करें',
+    reviewColumnName: 'नाम',
+    reviewColumnIssues: 'समस्याएँ',
+    reviewColumnSize: 'आकार',
+    reviewRename: 'नया नाम',
+    reviewMoreEntries: (count) => `${count} और फ़ाइलें... खोज या फ़िल्टर से सूची छोटी करें`,
+    reviewClearOverrides: (count) => `${count} हाथ से किए बदलाव वापस लें`,
     optionsTitle: 'कन्वर्ज़न विकल्प',
     optionRemoveMac: '__MACOSX फ़ोल्डर हटाएँ',
     optionRemoveDS: '.DS_Store फ़ाइल हटाएँ',
     optionRemoveHidden: 'छिपी फ़ाइलें हटाएँ ( . से शुरू )',
     optionFixEncoding: 'फ़ाइल नाम एन्कोडिंग स्वतः ठीक करें',
+    optionNormalizeUnicode: 'विघटित अक्षरों को जोड़ें (NFD → NFC)',
+    optionEncoding: 'फ़ाइल नाम एन्कोडिंग',
+    encodingAuto: (detected) => `स्वतः पहचान (${detected ?? '-'})`,
+    previewTitle: 'फ़ाइल नाम पूर्वावलोकन',
+    optionOutputProfile: 'आउटपुट फ़ाइल नाम प्रारूप',
+    profileUtf8: 'आधुनिक UTF-8',
+    profileLegacy: 'पुराना Windows (सिस्टम कोड पेज)',
+    profileCompat: 'अधिकतम संगतता (कोड पेज + यूनिकोड पथ)',
+    optionOutputEncoding: 'कोड पेज',
+    outputEncodingDefault: (label) => `डिफ़ॉल्ट (${label})`,
+    optionMetadata: 'तिथि और अनुमतियाँ',
+    metadataPreserve: 'जैसा है वैसा रखें',
+    metadataNormalize: 'एकरूप करें (पुनरुत्पादनीय बिल्ड)',
+    metadataReset: 'वर्तमान समय पर रीसेट करें',
+    optionDataMode: 'फ़ाइल डेटा',
+    dataModeCopy: 'संपीड़ित डेटा को जैसा है वैसा कॉपी करें (तेज़)',
+    dataModeRecompress: 'फिर से संपीड़ित करें',
+    dataBytesLabel: (copied, recompressed) => `जैसा का तैसा कॉपी ${copied} · फिर से संपीड़ित ${recompressed}`,
+    scanSummary: (entries, total, ratio, depth) => `${entries} प्रविष्टियाँ · असंपीड़ित ${total} · अधिकतम अनुपात ${ratio}:1 · नेस्टिंग ${depth} स्तर`,
+    limitsExceeded: 'सुरक्षा सीमाएँ पार हो गईं (यह ज़िप बम हो सकता है)',
+    limitEntries: (value, max) => `${value} प्रविष्टियाँ (सीमा ${max})`,
+    limitTotalSize: (value, max) => `असंपीड़ित ${value} (सीमा ${max})`,
+    limitRatio: (value, max, path) => `संपीड़न अनुपात ${value}:1 (सीमा ${max}:1) — ${path}`,
+    limitNestingDepth: (value, max) => `आर्काइव ${value} स्तर तक नेस्टेड (सीमा ${max})`,
+    limitError: 'आर्काइव सुरक्षा सीमाओं से अधिक है, इसलिए प्रोसेस नहीं किया गया।',
+    passwordError: 'पासवर्ड नहीं दिया गया या गलत है।',
+    optionWindowsNames: 'Windows-असंगत नाम',
+    windowsNamesFullwidth: 'फुल-विड्थ मिलते-जुलते वर्णों से बदलें (：？｜)',
+    windowsNamesUnderscore: '_ से बदलें',
+    windowsNamesTruncate: 'छोटा करें और हैश जोड़ें',
+    windowsNamesOff: 'जैसा है वैसा रहने दें',
+    optionCollisions: 'नाम टकराव',
+    collisionsSuffix: 'संख्या जोड़ें (1)',
+    collisionsKeepNewest: 'सबसे नई फ़ाइल रखें',
+    collisionsAbort: 'प्रोसेसिंग रोकें',
+    optionUnsafePaths: 'असुरक्षित पथ (../, पूर्ण पथ)',
+    unsafePathsSanitize: 'सुरक्षित सापेक्ष पथ में बदलें',
+    unsafePathsDrop: 'हटाएँ',
+    optionLimitAction: 'सुरक्षा सीमाएँ पार होने पर',
+    limitActionRefuse: 'प्रोसेस न करें',
+    limitActionWarn: 'केवल चेतावनी दें',
+    optionPassword: 'पासवर्ड',
+    optionOutputEncryption: 'आउटपुट एन्क्रिप्शन',
+    outputEncryptionSame: 'मूल जैसा ही',
+    outputEncryptionZipCrypto: 'ZipCrypto (सबसे संगत)',
+    outputEncryptionAes256: 'AES-256 (सबसे सुरक्षित)',
+    optionNestedDepth: 'अंदर के ZIP',
+    nestedDepthOff: 'जैसे हैं वैसे कॉपी करें',
+    nestedDepthLevels: (depth) => `${depth} स्तर तक`,
     buttonProcess: 'Windows-संगत ZIP में बदलें',
     buttonDownload: 'ठीक की गई ZIP डाउनलोड करें',
+    buttonDownloadAll: 'ठीक किए गए सभी आर्काइव डाउनलोड करें (ZIP)',
+    buttonDownloadOne: 'डाउनलोड',
+    buttonCancel: 'रद्द करें',
+    optionSaveToDisk: 'प्रोसेस करते समय सीधे डिस्क पर सहेजें (बहुत बड़ी ZIP के लिए)',
+    optionEmbedReport: 'रिपोर्ट को _fix-report.json के रूप में ZIP में शामिल करें',
+    exportReportLabel: 'रिपोर्ट निर्यात करें',
+    savedToDisk: 'ठीक की गई ZIP सहेज ली गई है।',
+    progressLabel: (done, total) => `${done} / ${total} फ़ाइलें`,
     statusAnalyzing: 'विश्लेषण हो रहा है...',
     statusProcessing: 'बदल रहा है...',
     feature1Title: 'ऑटो एन्कोडिंग फिक्स',
@@ -311,32 +1140,160 @@ const MESSAGES: Record<Lang, Messages> = {
     subtitle: 'Corrige les ZIP créés sur macOS pour qu’ils s’affichent correctement sous Windows.',
     zipMode: 'Corriger un ZIP',
     folderMode: 'Dossier → ZIP',
-    uploadZip: 'Glissez un ZIP ou cliquez pour sélectionner',
+    uploadZip: 'Glissez des archives (ZIP, TAR, TAR.GZ) ou un dossier, ou cliquez pour sélectionner',
     uploadFolder: 'Cliquez pour sélectionner un dossier',
     uploadZipDesc: 'Détecte et corrige automatiquement l’encodage des noms de fichiers.',
     uploadFolderDesc: 'Crée un ZIP compatible Windows à partir du dossier sélectionné.',
-    zipOnlyError: 'Seuls les fichiers ZIP sont pris en charge.',
+    zipOnlyError: 'Seuls les fichiers ZIP, TAR et TAR.GZ sont pris en charge.',
     analyzeError: 'Une erreur est survenue lors de l’analyse du ZIP.',
     processError: 'Une erreur est survenue pendant le traitement.',
     selectedFolder: 'Dossier sélectionné',
     fileCount: (count) => `${count} fichiers`,
-    encodingConfidenceLabel: 'Probabilité de problème d’encodage',
+    convertedToZip: (format) => `Conversion ${format} → ZIP`,
+    detectedEncodingLabel: (score) => `Encodage détecté (confiance ${score} %)`,
     macosArtifactsLabel: 'Fichiers __MACOSX',
     dsStoreLabel: 'Fichiers .DS_Store',
     encodingIssuesLabel: 'Fichiers avec problème d’encodage',
+    mojibakeIssuesLabel: 'Noms doublement encodés',
+    normalizationIssuesLabel: 'Noms décomposés (NFD)',
+    windowsNameIssuesLabel: 'Noms incompatibles avec Windows',
+    unsafePathIssuesLabel: 'Chemins dangereux',
+    encryptedNotice: (count) => `${count} fichiers chiffrés : saisissez le mot de passe pour les traiter.`,
     issuesTitle: 'Problèmes détectés',
     moreIssues: (count) => `${count} problèmes supplémentaires...`,
     issueTypeEncoding: 'Encodage',
+    issueTypeMojibake: 'Double encodage',
+    issueTypeNormalization: 'Normalisation',
+    issueTypeWindows: 'Windows',
+    issueTypeUnsafePath: 'Chemin dangereux',
+    issueTypeCollision: 'Collision',
+    issueTypeEncrypted: 'Chiffré',
+    collisionsTitle: 'Collisions de noms',
+    collisionDropped: 'supprimé',
+    collisionError: 'Traitement interrompu : certains fichiers auraient le même nom. Choisissez une autre gestion des collisions et réessayez.',
+    nestedTitle: 'Archives imbriquées',
+    nestedIssueCount: (count) => `${count} problèmes`,
+    nestedKeptAsIs: 'Impossible à traiter, conservée telle quelle',
+    batchTitle: (count) => `${count} archives`,
+    batchIssueCount: (count) => `${count} problèmes`,
+    batchQueued: 'En attente',
+    batchReady: 'Analysée',
+    batchDone: 'Terminée',
+    batchFailed: 'Échec',
+    nameSourcesLabel: 'Origine des noms',
+    nameSourceUtf8Flag: 'Drapeau UTF-8',
+    nameSourceUnicodePath: 'Champ chemin Unicode',
+    nameSourceUtf8: 'UTF-8 (sans drapeau)',
+    nameSourceCodePage: 'Page de code',
     issueTypeMacos: 'MACOSX',
     issueTypeDsStore: 'DS_Store',
     issueTypeHidden: 'Masqué',
+    issueTypeExcluded: 'Exclu',
+    issueTypeRenamed: 'Renommé',
+    issueActionDetected: 'Détecté',
+    issueActionRemoved: 'Supprimé',
+    issueActionRenamed: 'Renommé',
+    issueActionKept: 'Conservé',
+    issueMacosArtifact: 'Fichier de métadonnées macOS (__MACOSX)',
+    issueDsStore: 'Fichier de réglages de dossier macOS (.DS_Store)',
+    issueHiddenFile: 'Fichier caché',
+    issueEncrypted: (method) => `Chiffré (${method})`,
+    issueReencrypted: (from, to) => `Chiffré à nouveau (${from} → ${to})`,
+    issueLegacyEncoding: 'Nom dans un ancien encodage (converti en UTF-8)',
+    issueUnicodePathField: 'Nom tiré du champ supplémentaire Unicode Path',
+    issueDoubleEncoding: (layers) => `Nom encodé plusieurs fois (${layers} niveaux)`,
+    issueDecomposedUnicode: 'Normalisation Unicode (NFD → NFC)',
+    issueUnsafePath: (problems) => `Chemin dangereux : ${problems}`,
+    issueWindowsName: (problems) => `Nom que Windows ne peut pas extraire : ${problems}`,
+    issueNameCollision: (other) => `Conflit de noms : même nom que ${other}`,
+    issueNameCollisionNewer: (newer) => `Conflit de noms : ${newer} est plus récent`,
+    issueManualExclude: 'Exclu manuellement',
+    issueManualRename: 'Renommé manuellement',
+    unsafeTraversal: 'dossier parent (..)',
+    unsafeAbsolute: 'chemin absolu',
+    unsafeDriveLetter: 'lettre de lecteur',
+    unsafeBackslash: 'séparateur barre oblique inverse',
+    unsafeNulByte: 'caractère NUL',
+    unsafeSymlinkEscape: 'lien symbolique pointant hors de l’archive',
+    windowsIllegalChars: 'caractères interdits',
+    windowsTrailingDotSpace: 'point ou espace final',
+    windowsReservedName: 'nom de périphérique réservé',
+    windowsPathTooLong: 'chemin de plus de 260 caractères',
+    reviewTitle: 'Revue des fichiers',
+    reviewSearch: 'Rechercher un nom de fichier',
+    reviewFilterAll: 'Tous les fichiers',
+    reviewFilterNone: 'Sans problème',
+    reviewColumnInclude: 'Inclure',
+    reviewColumnName: 'Nom',
+    reviewColumnIssues: 'Problèmes',
+    reviewColumnSize: 'Taille',
+    reviewRename: 'Nouveau nom',
+    reviewMoreEntries: (count) => `${count} fichiers de plus... affinez la liste avec la recherche ou le filtre`,
+    reviewClearOverrides: (count) => `Annuler ${count} modifications manuelles`,
     optionsTitle: 'Options de conversion',
     optionRemoveMac: 'Supprimer le dossier __MACOSX',
     optionRemoveDS: 'Supprimer les fichiers .DS_Store',
     optionRemoveHidden: 'Supprimer les fichiers cachés (commençant par .)',
     optionFixEncoding: 'Correction automatique des noms de fichiers',
+    optionNormalizeUnicode: 'Recomposer les caractères décomposés (NFD → NFC)',
+    optionEncoding: 'Encodage des noms de fichiers',
+    encodingAuto: (detected) => `Détection automatique (${detected ?? '-'})`,
+    previewTitle: 'Aperçu des noms de fichiers',
+    optionOutputProfile: 'Format des noms en sortie',
+    profileUtf8: 'UTF-8 moderne',
+    profileLegacy: 'Ancien Windows (page de code native)',
+    profileCompat: 'Compatibilité maximale (page de code + chemin Unicode)',
+    optionOutputEncoding: 'Page de code',
+    outputEncodingDefault: (label) => `Par défaut (${label})`,
+    optionMetadata: 'Dates et permissions',
+    metadataPreserve: 'Conserver',
+    metadataNormalize: 'Normaliser (builds reproductibles)',
+    metadataReset: 'Réinitialiser à l’heure actuelle',
+    optionDataMode: 'Données des fichiers',
+    dataModeCopy: 'Copier les données compressées telles quelles (rapide)',
+    dataModeRecompress: 'Recompresser',
+    dataBytesLabel: (copied, recompressed) => `Copié tel quel ${copied} · Recompressé ${recompressed}`,
+    scanSummary: (entries, total, ratio, depth) => `${entries} entrées · ${total} décompressés · taux max ${ratio}:1 · imbrication ${depth}`,
+    limitsExceeded: 'Limites de sécurité dépassées (il peut s’agir d’une bombe ZIP)',
+    limitEntries: (value, max) => `${value} entrées (limite ${max})`,
+    limitTotalSize: (value, max) => `${value} décompressés (limite ${max})`,
+    limitRatio: (value, max, path) => `Taux de compression ${value}:1 (limite ${max}:1) — ${path}`,
+    limitNestingDepth: (value, max) => `Archives imbriquées sur ${value} niveaux (limite ${max})`,
+    limitError: 'L’archive dépasse les limites de sécurité et n’a pas été traitée.',
+    passwordError: 'Le mot de passe est manquant ou incorrect.',
+    optionWindowsNames: 'Noms incompatibles avec Windows',
+    windowsNamesFullwidth: 'Remplacer par des caractères pleine chasse (：？｜)',
+    windowsNamesUnderscore: 'Remplacer par _',
+    windowsNamesTruncate: 'Tronquer avec un suffixe de hachage',
+    windowsNamesOff: 'Laisser tels quels',
+    optionCollisions: 'Collisions de noms',
+    collisionsSuffix: 'Ajouter un numéro (1)',
+    collisionsKeepNewest: 'Garder le fichier le plus récent',
+    collisionsAbort: 'Arrêter le traitement',
+    optionUnsafePaths: 'Chemins dangereux (../, chemins absolus)',
+    unsafePathsSanitize: 'Réécrire en chemin relatif sûr',
+    unsafePathsDrop: 'Supprimer',
+    optionLimitAction: 'En cas de dépassement des limites',
+    limitActionRefuse: 'Refuser le traitement',
+    limitActionWarn: 'Avertir seulement',
+    optionPassword: 'Mot de passe',
+    optionOutputEncryption: 'Chiffrement en sortie',
+    outputEncryptionSame: 'Identique à l’original',
+    outputEncryptionZipCrypto: 'ZipCrypto (le plus compatible)',
+    outputEncryptionAes256: 'AES-256 (le plus sûr)',
+    optionNestedDepth: 'ZIP internes',
+    nestedDepthOff: 'Copier tels quels',
+    nestedDepthLevels: (depth) => (depth === 1 ? 'Sur 1 niveau' : `Sur ${depth} niveaux`),
     buttonProcess: 'Convertir en ZIP compatible Windows',
     buttonDownload: 'Télécharger le ZIP corrigé',
+    buttonDownloadAll: 'Télécharger toutes les archives corrigées (ZIP)',
+    buttonDownloadOne: 'Télécharger',
+    buttonCancel: 'Annuler',
+    optionSaveToDisk: 'Enregistrer directement sur le disque pendant le traitement (ZIP très volumineux)',
+    optionEmbedReport: 'Inclure le rapport dans le ZIP sous le nom _fix-report.json',
+    exportReportLabel: 'Exporter le rapport',
+    savedToDisk: 'Le ZIP corrigé a été enregistré.',
+    progressLabel: (done, total) => `${done} / ${total} fichiers`,
     statusAnalyzing: 'Analyse...',
     statusProcessing: 'Conversion...',
     feature1Title: 'Correction automatique d’encodage',
@@ -355,32 +1312,160 @@ const MESSAGES: Record<Lang, Messages> = {
     subtitle: 'Corrige ZIPs do macOS para aparecerem corretamente no Windows.',
     zipMode: 'Corrigir ZIP',
     folderMode: 'Pasta → ZIP',
-    uploadZip: 'Arraste um ZIP ou clique para selecionar',
+    uploadZip: 'Arraste arquivos compactados (ZIP, TAR, TAR.GZ) ou uma pasta, ou clique para selecionar',
     uploadFolder: 'Clique para selecionar uma pasta',
     uploadZipDesc: 'Detecta e corrige automaticamente a codificação do nome dos arquivos.',
     uploadFolderDesc: 'Cria um ZIP compatível com Windows a partir da pasta selecionada.',
-    zipOnlyError: 'Apenas arquivos ZIP são suportados.',
+    zipOnlyError: 'Apenas arquivos ZIP, TAR e TAR.GZ são suportados.',
     analyzeError: 'Ocorreu um erro ao analisar o ZIP.',
     processError: 'Ocorreu um erro durante o processamento.',
     selectedFolder: 'Pasta selecionada',
     fileCount: (count) => `${count} arquivos`,
-    encodingConfidenceLabel: 'Probabilidade de problema de codificação',
+    convertedToZip: (format) => `Conversão ${format} → ZIP`,
+    detectedEncodingLabel: (score) => `Codificação detectada (confiança de ${score}%)`,
     macosArtifactsLabel: 'Arquivos __MACOSX',
     dsStoreLabel: 'Arquivos .DS_Store',
     encodingIssuesLabel: 'Arquivos com problema de codificação',
+    mojibakeIssuesLabel: 'Nomes com codificação dupla',
+    normalizationIssuesLabel: 'Nomes decompostos (NFD)',
+    windowsNameIssuesLabel: 'Nomes incompatíveis com o Windows',
+    unsafePathIssuesLabel: 'Caminhos inseguros',
+    encryptedNotice: (count) => `${count} arquivos criptografados: digite a senha para processá-los.`,
     issuesTitle: 'Problemas detectados',
     moreIssues: (count) => `Mais ${count} problemas...`,
     issueTypeEncoding: 'Codificação',
+    issueTypeMojibake: 'Codificação dupla',
+    issueTypeNormalization: 'Normalização',
+    issueTypeWindows: 'Windows',
+    issueTypeUnsafePath: 'Caminho inseguro',
+    issueTypeCollision: 'Colisão',
+    issueTypeEncrypted: 'Criptografado',
+    collisionsTitle: 'Colisões de nomes',
+    collisionDropped: 'removido',
+    collisionError: 'O processamento foi interrompido porque alguns arquivos ficariam com o mesmo nome. Escolha outra forma de tratar colisões e tente novamente.',
+    nestedTitle: 'Arquivos aninhados',
+    nestedIssueCount: (count) => `${count} problemas`,
+    nestedKeptAsIs: 'Não pôde ser processado e foi mantido como está',
+    batchTitle: (count) => `${count} arquivos compactados`,
+    batchIssueCount: (count) => `${count} problemas`,
+    batchQueued: 'Na fila',
+    batchReady: 'Analisado',
+    batchDone: 'Concluído',
+    batchFailed: 'Falhou',
+    nameSourcesLabel: 'Origem dos nomes',
+    nameSourceUtf8Flag: 'Flag UTF-8',
+    nameSourceUnicodePath: 'Campo de caminho Unicode',
+    nameSourceUtf8: 'UTF-8 (sem flag)',
+    nameSourceCodePage: 'Página de código',
     issueTypeMacos: 'MACOSX',
     issueTypeDsStore: 'DS_Store',
     issueTypeHidden: 'Oculto',
+    issueTypeExcluded: 'Excluído',
+    issueTypeRenamed: 'Renomeado',
+    issueActionDetected: 'Detectado',
+    issueActionRemoved: 'Removido',
+    issueActionRenamed: 'Renomeado',
+    issueActionKept: 'Mantido',
+    issueMacosArtifact: 'Arquivo de metadados do macOS (__MACOSX)',
+    issueDsStore: 'Arquivo de configuração de pasta do macOS (.DS_Store)',
+    issueHiddenFile: 'Arquivo oculto',
+    issueEncrypted: (method) => `Criptografado (${method})`,
+    issueReencrypted: (from, to) => `Criptografado novamente (${from} → ${to})`,
+    issueLegacyEncoding: 'Nome em codificação legada (convertido para UTF-8)',
+    issueUnicodePathField: 'Nome obtido do campo extra Unicode Path',
+    issueDoubleEncoding: (layers) => `Nome codificado mais de uma vez (${layers} camadas)`,
+    issueDecomposedUnicode: 'Normalização Unicode (NFD → NFC)',
+    issueUnsafePath: (problems) => `Caminho inseguro: ${problems}`,
+    issueWindowsName: (problems) => `Nome que o Windows não consegue extrair: ${problems}`,
+    issueNameCollision: (other) => `Conflito de nomes: mesmo nome que ${other}`,
+    issueNameCollisionNewer: (newer) => `Conflito de nomes: ${newer} é mais recente`,
+    issueManualExclude: 'Excluído manualmente',
+    issueManualRename: 'Renomeado manualmente',
+    unsafeTraversal: 'pasta superior (..)',
+    unsafeAbsolute: 'caminho absoluto',
+    unsafeDriveLetter: 'letra de unidade',
+    unsafeBackslash: 'separador barra invertida',
+    unsafeNulByte: 'caractere NUL',
+    unsafeSymlinkEscape: 'link simbólico apontando para fora do arquivo',
+    windowsIllegalChars: 'caracteres proibidos',
+    windowsTrailingDotSpace: 'ponto ou espaço no final',
+    windowsReservedName: 'nome de dispositivo reservado',
+    windowsPathTooLong: 'caminho com mais de 260 caracteres',
+    reviewTitle: 'Revisar arquivos',
+    reviewSearch: 'Buscar nomes de arquivo',
+    reviewFilterAll: 'Todos os arquivos',
+    reviewFilterNone: 'Sem problemas',
+    reviewColumnInclude: 'Incluir',
+    reviewColumnName: 'Nome',
+    reviewColumnIssues: 'Problemas',
+    reviewColumnSize: 'Tamanho',
+    reviewRename: 'Novo nome',
+    reviewMoreEntries: (count) => `Mais ${count} arquivos... refine a lista com a busca ou o filtro`,
+    reviewClearOverrides: (count) => `Desfazer ${count} alterações manuais`,
     optionsTitle: 'Opções de conversão',
     optionRemoveMac: 'Remover pasta __MACOSX',
     optionRemoveDS: 'Remover arquivo .DS_Store',
     optionRemoveHidden: 'Remover arquivos ocultos (iniciados com .)',
     optionFixEncoding: 'Corrigir codificação do nome do arquivo',
+    optionNormalizeUnicode: 'Recompor caracteres decompostos (NFD → NFC)',
+    optionEncoding: 'Codificação dos nomes de arquivo',
+    encodingAuto: (detected) => `Detecção automática (${detected ?? '-'})`,
+    previewTitle: 'Prévia dos nomes de arquivo',
+    optionOutputProfile: 'Formato dos nomes de saída',
+    profileUtf8: 'UTF-8 moderno',
+    profileLegacy: 'Windows antigo (página de código nativa)',
+    profileCompat: 'Compatibilidade máxima (página de código + caminho Unicode)',
+    optionOutputEncoding: 'Página de código',
+    outputEncodingDefault: (label) => `Padrão (${label})`,
+    optionMetadata: 'Datas e permissões',
+    metadataPreserve: 'Manter como está',
+    metadataNormalize: 'Normalizar (builds reproduzíveis)',
+    metadataReset: 'Redefinir para a hora atual',
+    optionDataMode: 'Dados dos arquivos',
+    dataModeCopy: 'Copiar os dados compactados como estão (rápido)',
+    dataModeRecompress: 'Recompactar',
+    dataBytesLabel: (copied, recompressed) => `Copiado como está ${copied} · Recompactado ${recompressed}`,
+    scanSummary: (entries, total, ratio, depth) => `${entries} entradas · ${total} descompactados · taxa máx. ${ratio}:1 · aninhamento ${depth}`,
+    limitsExceeded: 'Limites de segurança excedidos (pode ser uma bomba ZIP)',
+    limitEntries: (value, max) => `${value} entradas (limite ${max})`,
+    limitTotalSize: (value, max) => `${value} descompactados (limite ${max})`,
+    limitRatio: (value, max, path) => `Taxa de compressão ${value}:1 (limite ${max}:1) — ${path}`,
+    limitNestingDepth: (value, max) => `Arquivos aninhados em ${value} níveis (limite ${max})`,
+    limitError: 'O arquivo excede os limites de segurança e não foi processado.',
+    passwordError: 'A senha está ausente ou incorreta.',
+    optionWindowsNames: 'Nomes incompatíveis com o Windows',
+    windowsNamesFullwidth: 'Substituir por caracteres de largura total (：？｜)',
+    windowsNamesUnderscore: 'Substituir por _',
+    windowsNamesTruncate: 'Truncar com sufixo de hash',
+    windowsNamesOff: 'Manter como está',
+    optionCollisions: 'Colisões de nomes',
+    collisionsSuffix: 'Adicionar um número (1)',
+    collisionsKeepNewest: 'Manter o arquivo mais recente',
+    collisionsAbort: 'Interromper o processamento',
+    optionUnsafePaths: 'Caminhos inseguros (../, caminhos absolutos)',
+    unsafePathsSanitize: 'Reescrever como caminho relativo seguro',
+    unsafePathsDrop: 'Remover',
+    optionLimitAction: 'Quando os limites de segurança forem excedidos',
+    limitActionRefuse: 'Recusar o processamento',
+    limitActionWarn: 'Apenas avisar',
+    optionPassword: 'Senha',
+    optionOutputEncryption: 'Criptografia da saída',
+    outputEncryptionSame: 'Igual ao original',
+    outputEncryptionZipCrypto: 'ZipCrypto (mais compatível)',
+    outputEncryptionAes256: 'AES-256 (mais seguro)',
+    optionNestedDepth: 'ZIPs internos',
+    nestedDepthOff: 'Copiar como estão',
+    nestedDepthLevels: (depth) => (depth === 1 ? 'Até 1 nível' : `Até ${depth} níveis`),
     buttonProcess: 'Converter para ZIP compatível com Windows',
     buttonDownload: 'Baixar ZIP corrigido',
+    buttonDownloadAll: 'Baixar todos os arquivos corrigidos (ZIP)',
+    buttonDownloadOne: 'Baixar',
+    buttonCancel: 'Cancelar',
+    optionSaveToDisk: 'Salvar direto no disco durante o processamento (ZIPs muito grandes)',
+    optionEmbedReport: 'Incluir o relatório no ZIP como _fix-report.json',
+    exportReportLabel: 'Exportar relatório',
+    savedToDisk: 'O ZIP corrigido foi salvo.',
+    progressLabel: (done, total) => `${done} / ${total} arquivos`,
     statusAnalyzing: 'Analisando...',
     statusProcessing: 'Convertendo...',
     feature1Title: 'Correção automática de codificação',
@@ -399,32 +1484,160 @@ const MESSAGES: Record<Lang, Messages> = {
     subtitle: 'Korrigiert ZIPs von macOS, damit sie unter Windows korrekt angezeigt werden.',
     zipMode: 'ZIP reparieren',
     folderMode: 'Ordner → ZIP',
-    uploadZip: 'ZIP ziehen oder klicken, um auszuwählen',
+    uploadZip: 'Archive (ZIP, TAR, TAR.GZ) oder einen Ordner ziehen oder klicken, um auszuwählen',
     uploadFolder: 'Klicken, um einen Ordner auszuwählen',
     uploadZipDesc: 'Erkennt und behebt Dateinamen-Encoding automatisch.',
     uploadFolderDesc: 'Erstellt ein Windows-kompatibles ZIP aus dem Ordner.',
-    zipOnlyError: 'Nur ZIP-Dateien werden unterstützt.',
+    zipOnlyError: 'Nur ZIP-, TAR- und TAR.GZ-Dateien werden unterstützt.',
     analyzeError: 'Beim Analysieren der ZIP ist ein Fehler aufgetreten.',
     processError: 'Beim Verarbeiten ist ein Fehler aufgetreten.',
     selectedFolder: 'Ausgewählter Ordner',
     fileCount: (count) => `${count} Dateien`,
-    encodingConfidenceLabel: 'Wahrscheinlichkeit von Encoding-Problemen',
+    convertedToZip: (format) => `Umwandlung ${format} → ZIP`,
+    detectedEncodingLabel: (score) => `Erkanntes Encoding (${score} % Sicherheit)`,
     macosArtifactsLabel: '__MACOSX-Dateien',
     dsStoreLabel: '.DS_Store-Dateien',
     encodingIssuesLabel: 'Dateien mit Encoding-Problemen',
+    mojibakeIssuesLabel: 'Doppelt kodierte Namen',
+    normalizationIssuesLabel: 'Zerlegte Namen (NFD)',
+    windowsNameIssuesLabel: 'Unter Windows ungültige Namen',
+    unsafePathIssuesLabel: 'Unsichere Pfade',
+    encryptedNotice: (count) => `${count} verschlüsselte Dateien: Geben Sie das Passwort ein, um sie zu verarbeiten.`,
     issuesTitle: 'Erkannte Probleme',
     moreIssues: (count) => `${count} weitere Probleme...`,
     issueTypeEncoding: 'Encoding',
+    issueTypeMojibake: 'Doppelt kodiert',
+    issueTypeNormalization: 'Normalisierung',
+    issueTypeWindows: 'Windows',
+    issueTypeUnsafePath: 'Unsicherer Pfad',
+    issueTypeCollision: 'Namenskonflikt',
+    issueTypeEncrypted: 'Verschlüsselt',
+    collisionsTitle: 'Namenskonflikte',
+    collisionDropped: 'entfernt',
+    collisionError: 'Die Verarbeitung wurde abgebrochen, weil mehrere Dateien denselben Namen erhalten würden. Wählen Sie eine andere Konfliktbehandlung und versuchen Sie es erneut.',
+    nestedTitle: 'Verschachtelte Archive',
+    nestedIssueCount: (count) => `${count} Probleme`,
+    nestedKeptAsIs: 'Konnte nicht verarbeitet werden und wurde unverändert übernommen',
+    batchTitle: (count) => `${count} Archive`,
+    batchIssueCount: (count) => `${count} Probleme`,
+    batchQueued: 'Wartet',
+    batchReady: 'Analysiert',
+    batchDone: 'Fertig',
+    batchFailed: 'Fehlgeschlagen',
+    nameSourcesLabel: 'Herkunft der Namen',
+    nameSourceUtf8Flag: 'UTF-8-Flag',
+    nameSourceUnicodePath: 'Unicode-Pfad-Feld',
+    nameSourceUtf8: 'UTF-8 (ohne Flag)',
+    nameSourceCodePage: 'Codepage',
     issueTypeMacos: 'MACOSX',
     issueTypeDsStore: 'DS_Store',
     issueTypeHidden: 'Versteckt',
+    issueTypeExcluded: 'Ausgeschlossen',
+    issueTypeRenamed: 'Umbenannt',
+    issueActionDetected: 'Erkannt',
+    issueActionRemoved: 'Entfernt',
+    issueActionRenamed: 'Umbenannt',
+    issueActionKept: 'Beibehalten',
+    issueMacosArtifact: 'macOS-Metadatendatei (__MACOSX)',
+    issueDsStore: 'macOS-Ordnereinstellungsdatei (.DS_Store)',
+    issueHiddenFile: 'Versteckte Datei',
+    issueEncrypted: (method) => `Verschlüsselt (${method})`,
+    issueReencrypted: (from, to) => `Neu verschlüsselt (${from} → ${to})`,
+    issueLegacyEncoding: 'Name in veralteter Kodierung (in UTF-8 umgewandelt)',
+    issueUnicodePathField: 'Name aus dem Unicode-Path-Zusatzfeld übernommen',
+    issueDoubleEncoding: (layers) => `Mehrfach kodierter Name (${layers} Ebenen)`,
+    issueDecomposedUnicode: 'Unicode-Normalisierung (NFD → NFC)',
+    issueUnsafePath: (problems) => `Unsicherer Pfad: ${problems}`,
+    issueWindowsName: (problems) => `Name, den Windows nicht entpacken kann: ${problems}`,
+    issueNameCollision: (other) => `Namenskonflikt: gleicher Name wie ${other}`,
+    issueNameCollisionNewer: (newer) => `Namenskonflikt: ${newer} ist neuer`,
+    issueManualExclude: 'Manuell ausgeschlossen',
+    issueManualRename: 'Manuell umbenannt',
+    unsafeTraversal: 'übergeordneter Ordner (..)',
+    unsafeAbsolute: 'absoluter Pfad',
+    unsafeDriveLetter: 'Laufwerksbuchstabe',
+    unsafeBackslash: 'Backslash als Trennzeichen',
+    unsafeNulByte: 'NUL-Zeichen',
+    unsafeSymlinkEscape: 'symbolischer Link, der aus dem Archiv hinauszeigt',
+    windowsIllegalChars: 'unzulässige Zeichen',
+    windowsTrailingDotSpace: 'Punkt oder Leerzeichen am Ende',
+    windowsReservedName: 'reservierter Gerätename',
+    windowsPathTooLong: 'Pfad länger als 260 Zeichen',
+    reviewTitle: 'Dateien prüfen',
+    reviewSearch: 'Dateinamen suchen',
+    reviewFilterAll: 'Alle Dateien',
+    reviewFilterNone: 'Ohne Probleme',
+    reviewColumnInclude: 'Übernehmen',
+    reviewColumnName: 'Name',
+    reviewColumnIssues: 'Probleme',
+    reviewColumnSize: 'Größe',
+    reviewRename: 'Neuer Name',
+    reviewMoreEntries: (count) => `${count} weitere Dateien... grenzen Sie die Liste mit Suche oder Filter ein`,
+    reviewClearOverrides: (count) => `${count} manuelle Änderungen zurücknehmen`,
     optionsTitle: 'Konvertierungsoptionen',
     optionRemoveMac: '__MACOSX-Ordner entfernen',
     optionRemoveDS: '.DS_Store-Datei entfernen',
     optionRemoveHidden: 'Versteckte Dateien entfernen (beginnend mit .)',
     optionFixEncoding: 'Dateinamen-Encoding automatisch korrigieren',
+    optionNormalizeUnicode: 'Zerlegte Zeichen zusammensetzen (NFD → NFC)',
+    optionEncoding: 'Dateinamen-Encoding',
+    encodingAuto: (detected) => `Automatisch erkennen (${detected ?? '-'})`,
+    previewTitle: 'Vorschau der Dateinamen',
+    optionOutputProfile: 'Format der Ausgabe-Dateinamen',
+    profileUtf8: 'Modernes UTF-8',
+    profileLegacy: 'Altes Windows (native Codepage)',
+    profileCompat: 'Maximale Kompatibilität (Codepage + Unicode-Pfad)',
+    optionOutputEncoding: 'Codepage',
+    outputEncodingDefault: (label) => `Standard (${label})`,
+    optionMetadata: 'Datum und Berechtigungen',
+    metadataPreserve: 'Unverändert übernehmen',
+    metadataNormalize: 'Vereinheitlichen (reproduzierbare Builds)',
+    metadataReset: 'Auf aktuelle Zeit zurücksetzen',
+    optionDataMode: 'Dateidaten',
+    dataModeCopy: 'Komprimierte Daten unverändert kopieren (schnell)',
+    dataModeRecompress: 'Neu komprimieren',
+    dataBytesLabel: (copied, recompressed) => `Unverändert kopiert ${copied} · Neu komprimiert ${recompressed}`,
+    scanSummary: (entries, total, ratio, depth) => `${entries} Einträge · ${total} entpackt · max. Verhältnis ${ratio}:1 · Verschachtelung ${depth}`,
+    limitsExceeded: 'Sicherheitsgrenzen überschritten (möglicherweise eine ZIP-Bombe)',
+    limitEntries: (value, max) => `${value} Einträge (Grenze ${max})`,
+    limitTotalSize: (value, max) => `${value} entpackt (Grenze ${max})`,
+    limitRatio: (value, max, path) => `Kompressionsverhältnis ${value}:1 (Grenze ${max}:1) — ${path}`,
+    limitNestingDepth: (value, max) => `Archive ${value} Ebenen tief verschachtelt (Grenze ${max})`,
+    limitError: 'Das Archiv überschreitet die Sicherheitsgrenzen und wurde nicht verarbeitet.',
+    passwordError: 'Das Passwort fehlt oder ist falsch.',
+    optionWindowsNames: 'Unter Windows ungültige Namen',
+    windowsNamesFullwidth: 'Durch Vollbreitenzeichen ersetzen (：？｜)',
+    windowsNamesUnderscore: 'Durch _ ersetzen',
+    windowsNamesTruncate: 'Kürzen mit Hash-Suffix',
+    windowsNamesOff: 'Unverändert lassen',
+    optionCollisions: 'Namenskonflikte',
+    collisionsSuffix: 'Nummer anhängen (1)',
+    collisionsKeepNewest: 'Neueste Datei behalten',
+    collisionsAbort: 'Verarbeitung abbrechen',
+    optionUnsafePaths: 'Unsichere Pfade (../, absolute Pfade)',
+    unsafePathsSanitize: 'In sicheren relativen Pfad umschreiben',
+    unsafePathsDrop: 'Entfernen',
+    optionLimitAction: 'Bei überschrittenen Sicherheitsgrenzen',
+    limitActionRefuse: 'Verarbeitung ablehnen',
+    limitActionWarn: 'Nur warnen',
+    optionPassword: 'Passwort',
+    optionOutputEncryption: 'Verschlüsselung der Ausgabe',
+    outputEncryptionSame: 'Wie im Original',
+    outputEncryptionZipCrypto: 'ZipCrypto (am kompatibelsten)',
+    outputEncryptionAes256: 'AES-256 (am sichersten)',
+    optionNestedDepth: 'Innere ZIPs',
+    nestedDepthOff: 'Unverändert kopieren',
+    nestedDepthLevels: (depth) => (depth === 1 ? '1 Ebene tief' : `${depth} Ebenen tief`),
     buttonProcess: 'In Windows-kompatibles ZIP umwandeln',
     buttonDownload: 'Korrigiertes ZIP herunterladen',
+    buttonDownloadAll: 'Alle korrigierten Archive herunterladen (ZIP)',
+    buttonDownloadOne: 'Herunterladen',
+    buttonCancel: 'Abbrechen',
+    optionSaveToDisk: 'Während der Verarbeitung direkt auf die Festplatte speichern (für sehr große ZIPs)',
+    optionEmbedReport: 'Bericht als _fix-report.json ins ZIP aufnehmen',
+    exportReportLabel: 'Bericht exportieren',
+    savedToDisk: 'Das korrigierte ZIP wurde gespeichert.',
+    progressLabel: (done, total) => `${done} / ${total} Dateien`,
     statusAnalyzing: 'Analysiere...',
     statusProcessing: 'Konvertiere...',
     feature1Title: 'Automatische Encoding-Korrektur',
@@ -448,6 +1661,69 @@ function getLang(input: string): Lang | null {
   return null;
 }
 
+function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
+
+function archiveBaseName(name: string): string {
+  const extension = ARCHIVE_EXTENSIONS.find(candidate => name.toLowerCase().endsWith(candidate));
+  return extension ? name.slice(0, -extension.length) : name;
+}
+
+// The archive extension is replaced, whatever the input format the output is a ZIP
+function fixedFileName(name: string): string {
+  return `${archiveBaseName(name)}_fixed.zip`;
+}
+
+const REPORT_TYPES: Record<ReportFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv;charset=utf-8',
+  html: 'text/html;charset=utf-8',
+};
+
+const BATCH_FILE_NAME = 'archives_fixed.zip';
+
+// Options that change what the analysis reports; the others only decide how the output is written
+const ANALYSIS_OPTIONS: (keyof ProcessingOptions)[] = [
+  'removeMAcOSArtifacts',
+  'removeDSStore',
+  'removeHiddenFiles',
+  'fixEncoding',
+  'normalizeUnicode',
+  'forcedEncoding',
+  'windowsNames',
+  'collisions',
+  'unsafePaths',
+  'limits',
+  'limitAction',
+  'nestedDepth',
+];
+
+// Rows rendered at once in the review table; search and filter reach the rest
+const REVIEW_ROW_LIMIT = 200;
+
+function issueBadgeClass(type: IssueType): string {
+  if (type === 'encoding') return 'bg-orange-100 text-orange-700 dark:bg-orange-900/50 dark:text-orange-300';
+  if (type === 'mojibake') return 'bg-amber-100 text-amber-700 dark:bg-amber-900/50 dark:text-amber-300';
+  if (type === 'normalization') return 'bg-teal-100 text-teal-700 dark:bg-teal-900/50 dark:text-teal-300';
+  if (type === 'windows_name') return 'bg-sky-100 text-sky-700 dark:bg-sky-900/50 dark:text-sky-300';
+  if (type === 'unsafe_path') return 'bg-rose-100 text-rose-700 dark:bg-rose-900/50 dark:text-rose-300';
+  if (type === 'collision') return 'bg-red-100 text-red-700 dark:bg-red-900/50 dark:text-red-300';
+  if (type === 'encrypted') return 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900/50 dark:text-indigo-300';
+  if (type === 'macos_artifact') return 'bg-purple-100 text-purple-700 dark:bg-purple-900/50 dark:text-purple-300';
+  if (type === 'ds_store') return 'bg-pink-100 text-pink-700 dark:bg-pink-900/50 dark:text-pink-300';
+  if (type === 'excluded') return 'bg-slate-200 text-slate-700 dark:bg-slate-900/50 dark:text-slate-300';
+  if (type === 'renamed') return 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/50 dark:text-emerald-300';
+  return 'bg-gray-100 text-gray-700 dark:bg-gray-900/50 dark:text-gray-300';
+}
+
 export default function Home() {
   const router = useRouter();
   const params = useParams();
@@ -461,16 +1737,80 @@ export default function Home() {
   const [status, setStatus] = useState<Status>('idle');
   const [isDragging, setIsDragging] = useState(false);
   const [file, setFile] = useState<File | null>(null);
-  const [files, setFiles] = useState<FileList | null>(null);
+  const [files, setFiles] = useState<FolderFile[] | null>(null);
+  const [batch, setBatch] = useState<BatchItem[] | null>(null);
   const [report, setReport] = useState<DiagnosticReport | null>(null);
+  const [entryNames, setEntryNames] = useState<ZipEntryRecord[] | null>(null);
   const [processedBlob, setProcessedBlob] = useState<Blob | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [options, setOptions] = useState<ProcessingOptions>({
+  const [progress, setProgress] = useState<ProcessingProgress | null>(null);
+  const [canSaveToDisk, setCanSaveToDisk] = useState(false);
+  const [saveToDisk, setSaveToDisk] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const [options, setProcessingOptions] = useState<ProcessingOptions>({
     removeMAcOSArtifacts: true,
     removeDSStore: true,
     removeHiddenFiles: false,
     fixEncoding: true,
+    normalizeUnicode: true,
+    forcedEncoding: null,
+    languageHint: null,
+    outputProfile: 'utf8',
+    outputEncoding: null,
+    metadata: 'preserve',
+    dataMode: 'copy',
+    windowsNames: 'fullwidth',
+    collisions: 'suffix',
+    unsafePaths: 'sanitize',
+    limits: DEFAULT_LIMITS,
+    limitAction: 'refuse',
+    password: null,
+    outputEncryption: 'same',
+    nestedDepth: 0,
+    overrides: {},
+    embedReport: false,
   });
+  const [reportOptions, setReportOptions] = useState<ProcessingOptions | null>(null);
+  const [reviewFilter, setReviewFilter] = useState<ReviewFilter>('all');
+  const [reviewSearch, setReviewSearch] = useState('');
+  const [reviewSort, setReviewSort] = useState<{ key: ReviewSortKey; descending: boolean } | null>(null);
+
+  const nameSourceLabels: Record<NameSource, string> = {
+    utf8_flag: t.nameSourceUtf8Flag,
+    unicode_path: t.nameSourceUnicodePath,
+    utf8: t.nameSourceUtf8,
+    code_page: t.nameSourceCodePage,
+  };
+
+  const namePreview = useMemo(
+    () => (entryNames ? previewEntryNames(entryNames, options.forcedEncoding, currentLang) : []),
+    [entryNames, options.forcedEncoding, currentLang]
+  );
+
+  // Entries matching the search and filter, in archive order until a column is sorted
+  const reviewRows = useMemo(() => {
+    if (!report) return [];
+    const search = reviewSearch.trim().toLowerCase();
+    const rows = report.entries.filter(entry =>
+      (reviewFilter === 'all' ||
+        (reviewFilter === 'none' ? entry.issueTypes.length === 0 : entry.issueTypes.includes(reviewFilter))) &&
+      (search === '' ||
+        entry.originalPath.toLowerCase().includes(search) ||
+        (entry.fixedPath?.toLowerCase().includes(search) ?? false))
+    );
+    if (!reviewSort) return rows;
+    const direction = reviewSort.descending ? -1 : 1;
+    return rows.sort((a, b) => {
+      if (reviewSort.key === 'size') return direction * (a.size - b.size);
+      if (reviewSort.key === 'issues') return direction * (a.issueTypes.length - b.issueTypes.length);
+      return direction * a.originalPath.localeCompare(b.originalPath);
+    });
+  }, [report, reviewFilter, reviewSearch, reviewSort]);
+
+  const reviewIssueTypes = useMemo(
+    () => (report ? Array.from(new Set(report.entries.flatMap(entry => entry.issueTypes))) : []),
+    [report]
+  );
 
   const zipInputRef = useRef<HTMLInputElement>(null);
   const folderInputRef = useRef<HTMLInputElement>(null);
@@ -481,6 +1821,10 @@ export default function Home() {
     }
   }, [lang, router]);
 
+  useEffect(() => {
+    setCanSaveToDisk('showSaveFilePicker' in window);
+  }, []);
+
   useEffect(() => {
     const stored = window.localStorage.getItem('theme');
     if (stored === 'light' || stored === 'dark' || stored === 'system') {
@@ -505,107 +1849,437 @@ export default function Home() {
     setIsDragging(false);
   }, []);
 
-  const handleDrop = useCallback(async (e: React.DragEvent) => {
+  const handleDrop = async (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
 
-    const droppedFiles = e.dataTransfer.files;
-    if (droppedFiles.length === 0) return;
+    const dropped = await readDroppedItems(e.dataTransfer);
+    if (dropped.files.length === 0) return;
+
+    // A dropped directory is packed like a picked folder, anything else has to be archives
+    if (dropped.hasDirectories) {
+      setMode('folder');
+      await handleFolderFiles(dropped.files);
+      return;
+    }
 
-    const droppedFile = droppedFiles[0];
-    if (!droppedFile.name.endsWith('.zip')) {
+    const archives = dropped.files.map(({ file }) => file);
+    if (!archives.every(archive => isSupportedArchive(archive.name))) {
       setError(t.zipOnlyError);
       return;
     }
 
-    await handleZipFile(droppedFile);
-  }, [t.zipOnlyError]);
+    setMode('zip');
+    await handleZipFiles(archives);
+  };
 
-  const handleZipFile = async (zipFile: File) => {
-    setFile(zipFile);
+  const handleZipFiles = async (archives: File[]) => {
+    if (archives.length === 1) {
+      await handleZipFile(archives[0]);
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setFile(null);
     setFiles(null);
+    setReport(null);
+    setEntryNames(null);
+    setError(null);
+    setStatus('analyzing');
+    setProcessedBlob(null);
+    setBatch(archives.map(archive => ({ file: archive, status: 'queued', report: null, blob: null, error: null })));
+
+    // One archive at a time, so only one is ever held in memory by the worker
+    for (const [index, archive] of archives.entries()) {
+      updateBatchItem(index, { status: 'analyzing' });
+      try {
+        const archiveReport = await analyzeZipInWorker(archive, analysisOptions(options), { signal: controller.signal });
+        updateBatchItem(index, { status: 'ready', report: archiveReport });
+      } catch (err) {
+        if (isAbortError(err)) return;
+        updateBatchItem(index, { status: 'error', error: t.analyzeError });
+        console.error(err);
+      }
+    }
+    abortRef.current = null;
+    setStatus('idle');
+  };
+
+  const updateBatchItem = (index: number, update: Partial<BatchItem>) => {
+    setBatch(items => items && items.map((item, i) => (i === index ? { ...item, ...update } : item)));
+  };
+
+  // Manual overrides stay out of the analysis, so the review shows the automatic decision next to them
+  const analysisOptions = (source: ProcessingOptions): ProcessingOptions => ({
+    ...source,
+    languageHint: currentLang,
+    overrides: {},
+  });
+
+  // Analyze the picked archive or folder with the given options, replacing an analysis still running
+  const analyzeInput = async (zipFile: File | null, folderFiles: FolderFile[] | null, source: ProcessingOptions) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const used = analysisOptions(source);
     setError(null);
     setStatus('analyzing');
     setProcessedBlob(null);
 
     try {
-      const diagnosticReport = await analyzeZip(zipFile);
-      setReport(diagnosticReport);
+      const control = { signal: controller.signal };
+      setReport(
+        zipFile
+          ? await analyzeZipInWorker(zipFile, used, control)
+          : await analyzeFolderInWorker(folderFiles!, used, control)
+      );
+      setReportOptions(used);
       setStatus('idle');
     } catch (err) {
+      if (isAbortError(err)) return;
       setError(t.analyzeError);
       setStatus('error');
       console.error(err);
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
     }
   };
 
-  const handleFolderSelect = async (fileList: FileList) => {
-    setFiles(fileList);
+  const handleZipFile = async (zipFile: File) => {
+    setFile(zipFile);
+    setFiles(null);
+    setBatch(null);
+    setEntryNames(null);
+    await Promise.all([
+      analyzeInput(zipFile, null, options),
+      readEntryNames(zipFile).then(setEntryNames, err => console.error(err)),
+    ]);
+  };
+
+  const handleFolderFiles = async (folderFiles: FolderFile[]) => {
+    setFiles(folderFiles);
     setFile(null);
-    setError(null);
-    setReport({
-      totalFiles: fileList.length,
-      issues: [],
-      macosArtifacts: 0,
-      dsStoreFiles: Array.from(fileList).filter(f =>
-        f.name === '.DS_Store' || (f as File & { webkitRelativePath?: string }).webkitRelativePath?.includes('.DS_Store')
-      ).length,
-      encodingIssues: 0,
-      hiddenFiles: Array.from(fileList).filter(f => {
-        const path = (f as File & { webkitRelativePath?: string }).webkitRelativePath || f.name;
-        return path.split('/').some(p => p.startsWith('.') && p !== '.DS_Store');
-      }).length,
-      encodingConfidence: 0,
-    });
-    setStatus('idle');
+    setBatch(null);
+    setEntryNames(null);
+    await analyzeInput(null, folderFiles, options);
+  };
+
+  // Changing an option the analysis depends on analyzes again, so the review shows the names that will be written
+  const setOptions = (next: ProcessingOptions) => {
+    setProcessingOptions(next);
+    const changed = ANALYSIS_OPTIONS.some(key => next[key] !== options[key]);
+    if (changed && !batch && (file || files) && status !== 'processing') {
+      void analyzeInput(file, files, next);
+    }
   };
 
   const handleProcess = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const control = { signal: controller.signal, onProgress: setProgress };
     setStatus('processing');
+    setProgress(null);
     setError(null);
 
     try {
-      if (mode === 'zip' && file) {
-        const result = await processZip(file, options);
-        setProcessedBlob(result.blob);
-        setReport(result.report);
+      // The save dialog needs the click's user activation, so it is opened before anything is awaited
+      const sink = saveToDisk ? await openDiskSink() : null;
+      const processOptions = { ...options, languageHint: currentLang };
+      if (batch) {
+        await processBatch(sink, processOptions, control);
+      } else if (mode === 'zip' && file) {
+        if (sink) {
+          setReport(await processZipToStreamInWorker(file, sink, processOptions, control));
+        } else {
+          const result = await processZipInWorker(file, processOptions, control);
+          setProcessedBlob(result.blob);
+          setReport(result.report);
+        }
+        setReportOptions(processOptions);
       } else if (mode === 'folder' && files) {
-        const result = await createZipFromFiles(files, options);
-        setProcessedBlob(result.blob);
-        setReport(result.report);
+        if (sink) {
+          setReport(await createZipFromFilesToStreamInWorker(files, sink, processOptions, control));
+        } else {
+          const result = await createZipFromFilesInWorker(files, processOptions, control);
+          setProcessedBlob(result.blob);
+          setReport(result.report);
+        }
+        setReportOptions(processOptions);
       }
       setStatus('done');
     } catch (err) {
-      setError(t.processError);
-      setStatus('error');
-      console.error(err);
+      if (isAbortError(err)) {
+        setStatus('idle');
+      } else {
+        setError(processErrorMessage(err instanceof Error ? err.name : ''));
+        setStatus('error');
+        console.error(err);
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  // Fix each archive on its own, then bundle the fixed ones into a single ZIP. An archive that fails is
+  // marked and skipped, the rest of the batch still goes through. Every fixed archive stays in memory until
+  // the batch is reset: the bundle is built from them and each one keeps its own download button.
+  const processBatch = async (
+    sink: WritableStream<Uint8Array> | null,
+    processOptions: ProcessingOptions,
+    control: TaskControl
+  ) => {
+    const fixed: FolderFile[] = [];
+    for (const [index, item] of batch!.entries()) {
+      if (item.status === 'error') continue;
+      updateBatchItem(index, { status: 'processing' });
+      try {
+        const result = await processZipInWorker(item.file, processOptions, control);
+        updateBatchItem(index, { status: 'done', report: result.report, blob: result.blob });
+        const name = fixedFileName(item.file.name);
+        fixed.push({ file: new File([result.blob], name), path: name });
+      } catch (err) {
+        if (isAbortError(err)) {
+          updateBatchItem(index, { status: 'ready' });
+          throw err;
+        }
+        updateBatchItem(index, { status: 'error', error: processErrorMessage(err instanceof Error ? err.name : '') });
+        console.error(err);
+      }
+    }
+
+    if (fixed.length === 0) {
+      await sink?.abort();
+      throw new Error('No archive in the batch could be processed');
+    }
+    const bundleOptions = { languageHint: currentLang };
+    if (sink) {
+      await createZipFromFilesToStreamInWorker(fixed, sink, bundleOptions, control);
+    } else {
+      setProcessedBlob((await createZipFromFilesInWorker(fixed, bundleOptions, control)).blob);
     }
   };
 
+  const processErrorMessage = (name: string) => {
+    if (name === 'NameCollisionError') return t.collisionError;
+    if (name === 'ResourceLimitError') return t.limitError;
+    if (name === 'PasswordError') return t.passwordError;
+    return t.processError;
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  const outputFileName = () => (batch ? BATCH_FILE_NAME : fixedFileName(file?.name || 'archive'));
+
+  // Let the user pick the destination up front, the archive is then written there as it is produced
+  const openDiskSink = async (): Promise<WritableStream<Uint8Array>> => {
+    const handle = await (window as SaveFilePickerWindow).showSaveFilePicker!({
+      suggestedName: outputFileName(),
+      types: [{ description: 'ZIP', accept: { 'application/zip': ['.zip'] } }],
+    });
+    return handle.createWritable();
+  };
+
   const handleDownload = () => {
     if (!processedBlob) return;
+    saveAs(processedBlob, outputFileName());
+  };
 
-    const originalName = file?.name || 'archive';
-    const baseName = originalName.replace('.zip', '');
-    saveAs(processedBlob, `${baseName}_fixed.zip`);
+  // The report of the last analysis or processing run, with the options it was made with
+  const handleExportReport = (format: ReportFormat) => {
+    if (!report || !reportOptions) return;
+    const context: ReportContext = {
+      sourceName: file?.name ?? folderName(files ?? []),
+      sourceSize: file?.size ?? files?.reduce((sum, folderFile) => sum + folderFile.file.size, 0) ?? null,
+      options: reportOptions,
+      stage: status === 'done' ? 'processing' : 'analysis',
+    };
+    const content =
+      format === 'json' ? exportReportJson(report, context) :
+      format === 'csv' ? exportReportCsv(report, context) :
+      exportReportHtml(report, context);
+    saveAs(new Blob([content], { type: REPORT_TYPES[format] }), `${archiveBaseName(context.sourceName)}_report.${format}`);
   };
 
   const handleReset = () => {
+    abortRef.current?.abort();
     setFile(null);
     setFiles(null);
+    setBatch(null);
     setReport(null);
+    setReportOptions(null);
+    setEntryNames(null);
     setProcessedBlob(null);
     setError(null);
+    setProcessingOptions({ ...options, password: null, overrides: {} });
+    setReviewFilter('all');
+    setReviewSearch('');
+    setReviewSort(null);
     setStatus('idle');
   };
 
+  const batchStatusLabel = (itemStatus: BatchStatus) => {
+    if (itemStatus === 'analyzing') return t.statusAnalyzing;
+    if (itemStatus === 'ready') return t.batchReady;
+    if (itemStatus === 'processing') return t.statusProcessing;
+    if (itemStatus === 'done') return t.batchDone;
+    if (itemStatus === 'error') return t.batchFailed;
+    return t.batchQueued;
+  };
+
+  // Encrypted entries across the batch share one password
+  const encryptedFiles = batch
+    ? batch.reduce((sum, item) => sum + (item.report?.encryptedFiles ?? 0), 0)
+    : report?.encryptedFiles ?? 0;
+
+  // What the options decide for an entry without a manual override
+  const includedByDefault = (entry: ReviewEntry) => {
+    if (entry.issueTypes.includes('macos_artifact')) return !options.removeMAcOSArtifacts;
+    if (entry.issueTypes.includes('ds_store')) return !options.removeDSStore;
+    if (entry.issueTypes.includes('hidden_file') && options.removeHiddenFiles) return false;
+    return entry.fixedPath !== null;
+  };
+
+  // Only what differs from the automatic decision is kept, so setting a value back undoes the override.
+  // An empty name is kept while it is being typed and ignored by the processing.
+  const setEntryOverride = (entry: ReviewEntry, update: EntryOverride) => {
+    const next = { ...options.overrides[entry.originalPath], ...update };
+    if (next.include === includedByDefault(entry)) delete next.include;
+    if (next.rename === (entry.fixedPath ?? entry.originalPath)) delete next.rename;
+    const overrides = { ...options.overrides };
+    if (next.include === undefined && next.rename === undefined) {
+      delete overrides[entry.originalPath];
+    } else {
+      overrides[entry.originalPath] = next;
+    }
+    setOptions({ ...options, overrides });
+  };
+
+  const toggleReviewSort = (key: ReviewSortKey) => {
+    setReviewSort(reviewSort?.key === key ? { key, descending: !reviewSort.descending } : { key, descending: false });
+  };
+
+  const reviewColumnLabel = (key: ReviewSortKey) => {
+    if (key === 'issues') return t.reviewColumnIssues;
+    if (key === 'size') return t.reviewColumnSize;
+    return t.reviewColumnName;
+  };
+
+  const reviewLocked = status === 'processing' || status === 'done';
+  const overrideCount = Object.keys(options.overrides).length;
+
   const issueTypeLabel = (type: string) => {
     if (type === 'encoding') return t.issueTypeEncoding;
+    if (type === 'mojibake') return t.issueTypeMojibake;
+    if (type === 'normalization') return t.issueTypeNormalization;
+    if (type === 'windows_name') return t.issueTypeWindows;
+    if (type === 'unsafe_path') return t.issueTypeUnsafePath;
+    if (type === 'collision') return t.issueTypeCollision;
+    if (type === 'encrypted') return t.issueTypeEncrypted;
     if (type === 'macos_artifact') return t.issueTypeMacos;
     if (type === 'ds_store') return t.issueTypeDsStore;
+    if (type === 'excluded') return t.issueTypeExcluded;
+    if (type === 'renamed') return t.issueTypeRenamed;
     return t.issueTypeHidden;
   };
 
+  const issueActionLabel = (action: IssueAction) => {
+    if (action === 'removed') return t.issueActionRemoved;
+    if (action === 'renamed') return t.issueActionRenamed;
+    if (action === 'kept') return t.issueActionKept;
+    return t.issueActionDetected;
+  };
+
+  const unsafeProblemLabel = (problem: UnsafePathProblem) => {
+    if (problem === 'traversal') return t.unsafeTraversal;
+    if (problem === 'absolute') return t.unsafeAbsolute;
+    if (problem === 'drive_letter') return t.unsafeDriveLetter;
+    if (problem === 'backslash') return t.unsafeBackslash;
+    if (problem === 'nul_byte') return t.unsafeNulByte;
+    return t.unsafeSymlinkEscape;
+  };
+
+  const windowsProblemLabel = (problem: WindowsNameProblem) => {
+    if (problem === 'illegal_chars') return t.windowsIllegalChars;
+    if (problem === 'trailing_dot_space') return t.windowsTrailingDotSpace;
+    if (problem === 'reserved_name') return t.windowsReservedName;
+    return t.windowsPathTooLong;
+  };
+
+  // The issue in the page language, built from its code and parameters
+  const issueDescription = (issue: DiagnosticIssue) => {
+    if (issue.code === 'macos_artifact') return t.issueMacosArtifact;
+    if (issue.code === 'ds_store') return t.issueDsStore;
+    if (issue.code === 'hidden_file') return t.issueHiddenFile;
+    if (issue.code === 'encrypted') return t.issueEncrypted(issue.encryption ?? '');
+    if (issue.code === 'reencrypted') return t.issueReencrypted(issue.previousEncryption ?? '', issue.encryption ?? '');
+    if (issue.code === 'legacy_encoding') return t.issueLegacyEncoding;
+    if (issue.code === 'unicode_path_field') return t.issueUnicodePathField;
+    if (issue.code === 'double_encoding') return t.issueDoubleEncoding(issue.layers ?? 1);
+    if (issue.code === 'decomposed_unicode') return t.issueDecomposedUnicode;
+    if (issue.code === 'unsafe_path') {
+      return t.issueUnsafePath((issue.unsafeProblems ?? []).map(unsafeProblemLabel).join(', '));
+    }
+    if (issue.code === 'windows_name') {
+      return t.issueWindowsName((issue.windowsProblems ?? []).map(windowsProblemLabel).join(', '));
+    }
+    if (issue.code === 'name_collision') {
+      const other = issue.conflictsWith ?? '';
+      return issue.action === 'removed' ? t.issueNameCollisionNewer(other) : t.issueNameCollision(other);
+    }
+    if (issue.code === 'manual_exclude') return t.issueManualExclude;
+    return t.issueManualRename;
+  };
+
+  // Inner archives with their own issues, indented one step per nesting level
+  const renderNestedArchives = (archives: NestedArchive[]) => (
+    <ul className="space-y-3">
+      {archives.map((archive, i) => (
+        <li key={i} className="text-sm">
+          <p className="font-medium text-slate-700 dark:text-slate-200 truncate">
+            {archive.path}
+            {archive.report && (
+              <span className="ml-2 font-normal text-slate-500 dark:text-slate-400">
+                {t.nestedIssueCount(archive.report.issues.length)}
+              </span>
+            )}
+          </p>
+          {archive.error && (
+            <p className="text-red-600 dark:text-red-400 truncate">{t.nestedKeptAsIs}: {archive.error}</p>
+          )}
+          {archive.report?.issues.slice(0, 10).map((issue, j) => (
+            <p key={j} className="text-slate-600 dark:text-slate-300 truncate">
+              <span className="mr-2 text-xs font-medium text-slate-500 dark:text-slate-400">{issueTypeLabel(issue.type)}</span>
+              {issue.originalPath}
+              {issue.fixedPath && <span className="text-green-600 dark:text-green-400"> → {issue.fixedPath}</span>}
+              <span className="ml-2 text-xs text-slate-500 dark:text-slate-400">
+                {issueActionLabel(issue.action)} · {issueDescription(issue)}
+              </span>
+            </p>
+          ))}
+          {archive.report && archive.report.issues.length > 10 && (
+            <p className="text-slate-500 dark:text-slate-400">{t.moreIssues(archive.report.issues.length - 10)}</p>
+          )}
+          {archive.report && archive.report.nested.length > 0 && (
+            <div className="mt-2 ml-2 pl-3 border-l-2 border-slate-200 dark:border-slate-700">
+              {renderNestedArchives(archive.report.nested)}
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+
+  const limitViolationLabel = (violation: LimitViolation) => {
+    if (violation.limit === 'entries') return t.limitEntries(violation.value, violation.max);
+    if (violation.limit === 'total_size') return t.limitTotalSize(formatBytes(violation.value), formatBytes(violation.max));
+    if (violation.limit === 'ratio') return t.limitRatio(violation.value.toFixed(0), String(violation.max), violation.path ?? '');
+    return t.limitNestingDepth(violation.value, violation.max);
+  };
+
   const handleLangChange = (nextLang: Lang) => {
     if (nextLang === currentLang) return;
     router.replace(`/${nextLang}`);
@@ -712,7 +2386,7 @@ export default function Home() {
         </div>
 
         {/* Upload Area */}
-        {!file && !files && (
+        {!file && !files && !batch && (
           <div
             onDragOver={handleDragOver}
             onDragLeave={handleDragLeave}
@@ -746,9 +2420,10 @@ export default function Home() {
         <input
           ref={zipInputRef}
           type="file"
-          accept=".zip"
+          accept={ARCHIVE_EXTENSIONS.join(',')}
+          multiple
           className="hidden"
-          onChange={(e) => e.target.files?.[0] && handleZipFile(e.target.files[0])}
+          onChange={(e) => e.target.files && e.target.files.length > 0 && handleZipFiles(Array.from(e.target.files))}
         />
         <input
           ref={folderInputRef}
@@ -758,7 +2433,7 @@ export default function Home() {
           directory=""
           multiple
           className="hidden"
-          onChange={(e) => e.target.files && handleFolderSelect(e.target.files)}
+          onChange={(e) => e.target.files && handleFolderFiles(toFolderFiles(e.target.files))}
         />
 
         {/* Error Message */}
@@ -769,43 +2444,97 @@ export default function Home() {
         )}
 
         {/* File Selected - Show Report */}
-        {(file || files) && report && (
+        {(((file || files) && report) || batch) && (
           <div className="mt-8 space-y-6">
-            {/* File Info */}
-            <div className="bg-white dark:bg-slate-800 rounded-xl p-6 shadow-lg shadow-slate-400/25 dark:shadow-lg dark:shadow-black/30 border border-slate-200/80 dark:border-slate-700/50">
-              <div className="flex items-center justify-between mb-4">
-                <div className="flex items-center gap-3">
-                  <div className="w-12 h-12 rounded-lg bg-blue-100 dark:bg-blue-900 flex items-center justify-center">
-                    <svg className="w-6 h-6 text-blue-600 dark:text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" />
+            {/* Batch */}
+            {batch && (
+              <div className="bg-white dark:bg-slate-800 rounded-xl p-6 shadow-lg shadow-slate-400/25 dark:shadow-lg dark:shadow-black/30 border border-slate-200/80 dark:border-slate-700/50">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="font-medium text-slate-800 dark:text-white">{t.batchTitle(batch.length)}</h3>
+                  <button
+                    onClick={handleReset}
+                    className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200"
+                    aria-label="Reset"
+                  >
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
                     </svg>
+                  </button>
+                </div>
+                <div className="max-h-96 overflow-y-auto space-y-2">
+                  {batch.map((item, i) => (
+                    <div key={i} className="flex flex-wrap items-center gap-3 text-sm p-2 bg-slate-50 dark:bg-slate-700/50 rounded shadow-sm shadow-slate-400/15 dark:shadow-sm dark:shadow-black/15 border border-slate-200/80 dark:border-slate-700/40">
+                      <span className={`px-2 py-0.5 rounded text-xs font-medium ${
+                        item.status === 'done' ? 'bg-green-100 text-green-700 dark:bg-green-900/50 dark:text-green-300' :
+                        item.status === 'error' ? 'bg-red-100 text-red-700 dark:bg-red-900/50 dark:text-red-300' :
+                        item.status === 'analyzing' || item.status === 'processing' ? 'bg-blue-100 text-blue-700 dark:bg-blue-900/50 dark:text-blue-300' :
+                        'bg-gray-100 text-gray-700 dark:bg-gray-900/50 dark:text-gray-300'
+                      }`}>
+                        {batchStatusLabel(item.status)}
+                      </span>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-slate-700 dark:text-slate-200 truncate">{item.file.name}</p>
+                        <p className="text-slate-500 dark:text-slate-400">
+                          {formatBytes(item.file.size)}
+                          {item.report && ` · ${t.batchIssueCount(item.report.issues.length)}`}
+                        </p>
+                        {item.error && <p className="text-red-600 dark:text-red-400">{item.error}</p>}
+                      </div>
+                      {item.blob && (
+                        <button
+                          onClick={() => saveAs(item.blob!, fixedFileName(item.file.name))}
+                          className="text-green-600 hover:text-green-700 dark:text-green-400 dark:hover:text-green-300 font-medium"
+                        >
+                          {t.buttonDownloadOne}
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                {encryptedFiles > 0 && status !== 'done' && (
+                  <div className="mt-4 p-3 rounded-lg bg-indigo-50 dark:bg-indigo-900/20 border border-indigo-200 dark:border-indigo-800/50 text-sm">
+                    <p className="text-indigo-700 dark:text-indigo-300">{t.encryptedNotice(encryptedFiles)}</p>
                   </div>
-                  <div>
-                    <p className="font-medium text-slate-800 dark:text-white">
-                      {file?.name || t.selectedFolder}
-                    </p>
-                    <p className="text-sm text-slate-500 dark:text-slate-400">
-                      {t.fileCount(report.totalFiles)}
-                    </p>
+                )}
+              </div>
+            )}
+
+            {/* File Info */}
+            {report && (
+              <div className="bg-white dark:bg-slate-800 rounded-xl p-6 shadow-lg shadow-slate-400/25 dark:shadow-lg dark:shadow-black/30 border border-slate-200/80 dark:border-slate-700/50">
+                <div className="flex items-center justify-between mb-4">
+                  <div className="flex items-center gap-3">
+                    <div className="w-12 h-12 rounded-lg bg-blue-100 dark:bg-blue-900 flex items-center justify-center">
+                      <svg className="w-6 h-6 text-blue-600 dark:text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" />
+                      </svg>
+                    </div>
+                    <div>
+                      <p className="font-medium text-slate-800 dark:text-white">
+                        {file?.name || t.selectedFolder}
+                      </p>
+                      <p className="text-sm text-slate-500 dark:text-slate-400">
+                        {t.fileCount(report.totalFiles)}
+                        {report.format && report.format !== 'zip' && ` · ${t.convertedToZip(report.format.toUpperCase())}`}
+                      </p>
+                    </div>
                   </div>
+                  <button
+                    onClick={handleReset}
+                    className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200"
+                    aria-label="Reset"
+                  >
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
                 </div>
-                <button
-                  onClick={handleReset}
-                  className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200"
-                  aria-label="Reset"
-                >
-                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                  </svg>
-                </button>
-              </div>
 
-              {/* Diagnostic Summary */}
-              {mode === 'zip' && (
+                {/* Diagnostic Summary */}
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-6">
                   <div className="bg-slate-50 dark:bg-slate-700/50 rounded-lg p-4 shadow-sm shadow-slate-400/20 dark:shadow-md dark:shadow-black/20 border border-slate-200/80 dark:border-slate-700/50">
-                    <p className="text-2xl font-bold text-orange-500">{report.encodingConfidence}%</p>
-                    <p className="text-sm text-slate-600 dark:text-slate-400">{t.encodingConfidenceLabel}</p>
+                    <p className="text-2xl font-bold text-orange-500">{report.detectedEncoding ?? '-'}</p>
+                    <p className="text-sm text-slate-600 dark:text-slate-400">{t.detectedEncodingLabel(report.encodingScore)}</p>
                   </div>
                   <div className="bg-slate-50 dark:bg-slate-700/50 rounded-lg p-4 shadow-sm shadow-slate-400/20 dark:shadow-md dark:shadow-black/20 border border-slate-200/80 dark:border-slate-700/50">
                     <p className="text-2xl font-bold text-purple-500">{report.macosArtifacts}</p>
@@ -819,41 +2548,249 @@ export default function Home() {
                     <p className="text-2xl font-bold text-blue-500">{report.encodingIssues}</p>
                     <p className="text-sm text-slate-600 dark:text-slate-400">{t.encodingIssuesLabel}</p>
                   </div>
+                  <div className="bg-slate-50 dark:bg-slate-700/50 rounded-lg p-4 shadow-sm shadow-slate-400/20 dark:shadow-md dark:shadow-black/20 border border-slate-200/80 dark:border-slate-700/50">
+                    <p className="text-2xl font-bold text-amber-500">{report.mojibakeIssues}</p>
+                    <p className="text-sm text-slate-600 dark:text-slate-400">{t.mojibakeIssuesLabel}</p>
+                  </div>
+                  <div className="bg-slate-50 dark:bg-slate-700/50 rounded-lg p-4 shadow-sm shadow-slate-400/20 dark:shadow-md dark:shadow-black/20 border border-slate-200/80 dark:border-slate-700/50">
+                    <p className="text-2xl font-bold text-teal-500">{report.normalizationIssues}</p>
+                    <p className="text-sm text-slate-600 dark:text-slate-400">{t.normalizationIssuesLabel}</p>
+                  </div>
+                  <div className="bg-slate-50 dark:bg-slate-700/50 rounded-lg p-4 shadow-sm shadow-slate-400/20 dark:shadow-md dark:shadow-black/20 border border-slate-200/80 dark:border-slate-700/50">
+                    <p className="text-2xl font-bold text-sky-500">{report.windowsNameIssues}</p>
+                    <p className="text-sm text-slate-600 dark:text-slate-400">{t.windowsNameIssuesLabel}</p>
+                  </div>
+                  <div className="bg-slate-50 dark:bg-slate-700/50 rounded-lg p-4 shadow-sm shadow-slate-400/20 dark:shadow-md dark:shadow-black/20 border border-slate-200/80 dark:border-slate-700/50">
+                    <p className="text-2xl font-bold text-rose-500">{report.unsafePathIssues}</p>
+                    <p className="text-sm text-slate-600 dark:text-slate-400">{t.unsafePathIssuesLabel}</p>
+                  </div>
                 </div>
-              )}
-
-              {/* Issues List */}
-              {report.issues.length > 0 && (
-                <div className="mt-6">
-                  <h3 className="font-medium text-slate-800 dark:text-white mb-3">{t.issuesTitle}</h3>
-                  <div className="max-h-60 overflow-y-auto space-y-2">
-                    {report.issues.slice(0, 20).map((issue, i) => (
-                      <div key={i} className="flex items-start gap-2 text-sm p-2 bg-slate-50 dark:bg-slate-700/50 rounded shadow-sm shadow-slate-400/15 dark:shadow-sm dark:shadow-black/15 border border-slate-200/80 dark:border-slate-700/40">
-                        <span className={`px-2 py-0.5 rounded text-xs font-medium ${
-                          issue.type === 'encoding' ? 'bg-orange-100 text-orange-700 dark:bg-orange-900/50 dark:text-orange-300' :
-                          issue.type === 'macos_artifact' ? 'bg-purple-100 text-purple-700 dark:bg-purple-900/50 dark:text-purple-300' :
-                          issue.type === 'ds_store' ? 'bg-pink-100 text-pink-700 dark:bg-pink-900/50 dark:text-pink-300' :
-                          'bg-gray-100 text-gray-700 dark:bg-gray-900/50 dark:text-gray-300'
-                        }`}>
-                          {issueTypeLabel(issue.type)}
-                        </span>
-                        <div className="flex-1 min-w-0">
-                          <p className="text-slate-600 dark:text-slate-300 truncate">{issue.originalPath}</p>
-                          {issue.fixedPath && (
-                            <p className="text-green-600 dark:text-green-400 truncate">→ {issue.fixedPath}</p>
-                          )}
-                        </div>
-                      </div>
+                <div className="flex flex-wrap items-center gap-2 mt-4 text-sm">
+                  <span className="text-slate-600 dark:text-slate-400">{t.nameSourcesLabel}</span>
+                  {(Object.keys(nameSourceLabels) as NameSource[])
+                    .filter((source) => report.nameSources[source] > 0)
+                    .map((source) => (
+                      <span key={source} className="px-2 py-0.5 rounded text-xs font-medium bg-slate-100 text-slate-700 dark:bg-slate-700 dark:text-slate-300">
+                        {nameSourceLabels[source]} · {report.nameSources[source]}
+                      </span>
                     ))}
-                    {report.issues.length > 20 && (
-                      <p className="text-sm text-slate-500 dark:text-slate-400 text-center py-2">
-                        {t.moreIssues(report.issues.length - 20)}
-                      </p>
+                </div>
+                {report.bytesCopied + report.bytesRecompressed > 0 && (
+                  <p className="mt-2 text-sm text-slate-600 dark:text-slate-400">
+                    {t.dataBytesLabel(formatBytes(report.bytesCopied), formatBytes(report.bytesRecompressed))}
+                  </p>
+                )}
+                {report.scan && (
+                  <p className="mt-2 text-sm text-slate-600 dark:text-slate-400">
+                    {t.scanSummary(
+                      report.scan.entryCount,
+                      formatBytes(report.scan.totalSize),
+                      report.scan.maxRatio.toFixed(0),
+                      report.scan.nestingDepth
                     )}
+                  </p>
+                )}
+                {report.encryptedFiles > 0 && status !== 'done' && (
+                  <div className="mt-4 p-3 rounded-lg bg-indigo-50 dark:bg-indigo-900/20 border border-indigo-200 dark:border-indigo-800/50 text-sm">
+                    <p className="text-indigo-700 dark:text-indigo-300">{t.encryptedNotice(report.encryptedFiles)}</p>
+                  </div>
+                )}
+                {report.scan && report.scan.violations.length > 0 && (
+                  <div className="mt-4 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800/50 text-sm">
+                    <p className="font-medium text-amber-800 dark:text-amber-300">{t.limitsExceeded}</p>
+                    <ul className="mt-1 list-disc list-inside text-amber-700 dark:text-amber-400">
+                      {report.scan.violations.map((violation) => (
+                        <li key={violation.limit} className="truncate">{limitViolationLabel(violation)}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {/* Issues List */}
+                {report.issues.length > 0 && (
+                  <div className="mt-6">
+                    <h3 className="font-medium text-slate-800 dark:text-white mb-3">{t.issuesTitle}</h3>
+                    <div className="max-h-60 overflow-y-auto space-y-2">
+                      {report.issues.slice(0, 20).map((issue, i) => (
+                        <div key={i} className="flex items-start gap-2 text-sm p-2 bg-slate-50 dark:bg-slate-700/50 rounded shadow-sm shadow-slate-400/15 dark:shadow-sm dark:shadow-black/15 border border-slate-200/80 dark:border-slate-700/40">
+                          <span className={`px-2 py-0.5 rounded text-xs font-medium ${issueBadgeClass(issue.type)}`}>
+                            {issueTypeLabel(issue.type)}
+                          </span>
+                          <div className="flex-1 min-w-0">
+                            <p className="text-slate-600 dark:text-slate-300 truncate">{issue.originalPath}</p>
+                            {issue.fixedPath && (
+                              <p className="text-green-600 dark:text-green-400 truncate">→ {issue.fixedPath}</p>
+                            )}
+                            <p className="text-xs text-slate-500 dark:text-slate-400">
+                              {issueActionLabel(issue.action)} · {issueDescription(issue)}
+                            </p>
+                          </div>
+                        </div>
+                      ))}
+                      {report.issues.length > 20 && (
+                        <p className="text-sm text-slate-500 dark:text-slate-400 text-center py-2">
+                          {t.moreIssues(report.issues.length - 20)}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                )}
+
+                {/* Name Collisions */}
+                {report.collisions.length > 0 && (
+                  <div className="mt-6">
+                    <h3 className="font-medium text-slate-800 dark:text-white mb-3">
+                      {t.collisionsTitle} ({report.collisions.length})
+                    </h3>
+                    <div className="max-h-60 overflow-y-auto space-y-2">
+                      {report.collisions.map((collision, i) => (
+                        <div key={i} className="text-sm p-2 bg-red-50 dark:bg-red-900/20 rounded border border-red-200/80 dark:border-red-800/40">
+                          <p className="font-medium text-slate-700 dark:text-slate-200 truncate">{collision.path}</p>
+                          {collision.originalPaths.map((originalPath, j) => (
+                            <p key={j} className="text-slate-600 dark:text-slate-300 truncate">
+                              {originalPath}
+                              {collision.resolvedPaths && (
+                                <span className={collision.resolvedPaths[j] === null ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}>
+                                  {' → '}
+                                  {collision.resolvedPaths[j] ?? t.collisionDropped}
+                                </span>
+                              )}
+                            </p>
+                          ))}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Nested Archives */}
+                {report.nested.length > 0 && (
+                  <div className="mt-6">
+                    <h3 className="font-medium text-slate-800 dark:text-white mb-3">
+                      {t.nestedTitle} ({report.nested.length})
+                    </h3>
+                    <div className="max-h-80 overflow-y-auto">{renderNestedArchives(report.nested)}</div>
                   </div>
+                )}
+
+                {/* Report Export */}
+                <div className="flex flex-wrap items-center gap-2 mt-6 text-sm">
+                  <span className="text-slate-600 dark:text-slate-400">{t.exportReportLabel}</span>
+                  {(Object.keys(REPORT_TYPES) as ReportFormat[]).map((format) => (
+                    <button
+                      key={format}
+                      onClick={() => handleExportReport(format)}
+                      disabled={status === 'processing' || status === 'analyzing'}
+                      className="px-3 py-1 rounded-lg border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-200 font-medium hover:bg-slate-50 dark:hover:bg-slate-700 disabled:opacity-50"
+                    >
+                      {format.toUpperCase()}
+                    </button>
+                  ))}
                 </div>
-              )}
-            </div>
+              </div>
+            )}
+
+            {/* Review */}
+            {report && !batch && report.entries.length > 0 && (
+              <div className="bg-white dark:bg-slate-800 rounded-xl p-6 shadow-lg shadow-slate-400/25 dark:shadow-lg dark:shadow-black/30 border border-slate-200/80 dark:border-slate-700/50">
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                  <h3 className="font-medium text-slate-800 dark:text-white">{t.reviewTitle}</h3>
+                  {overrideCount > 0 && (
+                    <button
+                      onClick={() => setOptions({ ...options, overrides: {} })}
+                      disabled={reviewLocked}
+                      className="text-sm font-medium text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 disabled:opacity-50"
+                    >
+                      {t.reviewClearOverrides(overrideCount)}
+                    </button>
+                  )}
+                </div>
+                <div className="flex flex-wrap items-center gap-3 mb-3">
+                  <input
+                    type="search"
+                    value={reviewSearch}
+                    onChange={(e) => setReviewSearch(e.target.value)}
+                    placeholder={t.reviewSearch}
+                    className="flex-1 min-w-0 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 px-3 py-1.5 text-sm text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <select
+                    value={reviewFilter}
+                    onChange={(e) => setReviewFilter(e.target.value as ReviewFilter)}
+                    className="rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 px-3 py-1.5 text-sm text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="all">{t.reviewFilterAll}</option>
+                    <option value="none">{t.reviewFilterNone}</option>
+                    {reviewIssueTypes.map((type) => (
+                      <option key={type} value={type}>{issueTypeLabel(type)}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="max-h-96 overflow-y-auto">
+                  <table className="w-full table-fixed text-sm">
+                    <thead className="sticky top-0 bg-white dark:bg-slate-800 text-left text-slate-600 dark:text-slate-400">
+                      <tr>
+                        <th className="w-10 p-2 font-medium">
+                          <span className="sr-only">{t.reviewColumnInclude}</span>
+                        </th>
+                        {(['path', 'issues', 'size'] as ReviewSortKey[]).map((key) => (
+                          <th key={key} className={`p-2 font-medium ${key === 'issues' ? 'w-36' : key === 'size' ? 'w-20 text-right' : ''}`}>
+                            <button onClick={() => toggleReviewSort(key)} className="hover:text-slate-800 dark:hover:text-white">
+                              {reviewColumnLabel(key)}
+                              {reviewSort?.key === key && (reviewSort.descending ? ' ↓' : ' ↑')}
+                            </button>
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                      {reviewRows.slice(0, REVIEW_ROW_LIMIT).map((entry) => {
+                        const override = options.overrides[entry.originalPath];
+                        return (
+                          <tr key={entry.originalPath} className="align-top">
+                            <td className="p-2">
+                              <input
+                                type="checkbox"
+                                checked={override?.include ?? includedByDefault(entry)}
+                                onChange={(e) => setEntryOverride(entry, { include: e.target.checked })}
+                                disabled={reviewLocked}
+                                aria-label={t.reviewColumnInclude}
+                                className="w-4 h-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                              />
+                            </td>
+                            <td className="p-2">
+                              <p className="text-slate-500 dark:text-slate-400 truncate">{entry.originalPath}</p>
+                              <input
+                                type="text"
+                                value={override?.rename ?? entry.fixedPath ?? entry.originalPath}
+                                onChange={(e) => setEntryOverride(entry, { rename: e.target.value })}
+                                disabled={reviewLocked}
+                                aria-label={t.reviewRename}
+                                className="mt-1 w-full rounded border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 px-2 py-1 text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                              />
+                            </td>
+                            <td className="p-2">
+                              <div className="flex flex-wrap gap-1">
+                                {entry.issueTypes.map((type) => (
+                                  <span key={type} className={`px-2 py-0.5 rounded text-xs font-medium ${issueBadgeClass(type)}`}>
+                                    {issueTypeLabel(type)}
+                                  </span>
+                                ))}
+                              </div>
+                            </td>
+                            <td className="p-2 text-right whitespace-nowrap text-slate-500 dark:text-slate-400">{formatBytes(entry.size)}</td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+                {reviewRows.length > REVIEW_ROW_LIMIT && (
+                  <p className="text-sm text-slate-500 dark:text-slate-400 text-center py-2">
+                    {t.reviewMoreEntries(reviewRows.length - REVIEW_ROW_LIMIT)}
+                  </p>
+                )}
+              </div>
+            )}
 
             {/* Options */}
             <div className="bg-white dark:bg-slate-800 rounded-xl p-6 shadow-lg shadow-slate-400/25 dark:shadow-lg dark:shadow-black/30 border border-slate-200/80 dark:border-slate-700/50">
@@ -886,15 +2823,231 @@ export default function Home() {
                   />
                   <span className="text-slate-700 dark:text-slate-300">{t.optionRemoveHidden}</span>
                 </label>
-                {mode === 'zip' && (
+                <label className="flex items-center gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={options.fixEncoding}
+                    onChange={(e) => setOptions({ ...options, fixEncoding: e.target.checked })}
+                    className="w-5 h-5 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="text-slate-700 dark:text-slate-300">{t.optionFixEncoding}</span>
+                </label>
+                {mode === 'zip' && entryNames && (
+                  <div className="pt-2">
+                    <label className="flex flex-wrap items-center gap-3">
+                      <span className="text-slate-700 dark:text-slate-300">{t.optionEncoding}</span>
+                      <select
+                        value={options.forcedEncoding ?? ''}
+                        onChange={(e) => setOptions({ ...options, forcedEncoding: e.target.value || null })}
+                        disabled={!options.fixEncoding}
+                        className="rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 px-3 py-1.5 text-sm text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                      >
+                        <option value="">{t.encodingAuto(report?.detectedEncoding ?? null)}</option>
+                        {ENCODING_CHOICES.map((choice) => (
+                          <option key={choice.encoding} value={choice.encoding}>
+                            {choice.label}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    {options.fixEncoding && (
+                      <>
+                        <h4 className="mt-4 mb-2 text-sm font-medium text-slate-800 dark:text-white">{t.previewTitle}</h4>
+                        <div className="max-h-60 overflow-y-auto space-y-1">
+                          {namePreview.map((name, i) => (
+                            <div key={i} className="text-sm p-2 bg-slate-50 dark:bg-slate-700/50 rounded border border-slate-200/80 dark:border-slate-700/40">
+                              <p className={`truncate ${name.changed ? 'text-green-600 dark:text-green-400' : 'text-slate-600 dark:text-slate-300'}`}>
+                                {name.previewPath}
+                              </p>
+                              {name.changed && (
+                                <p className="truncate text-xs text-slate-400 dark:text-slate-500">
+                                  {name.originalPath} · {nameSourceLabels[name.source]}
+                                </p>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      </>
+                    )}
+                  </div>
+                )}
+                <label className="flex items-center gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={options.normalizeUnicode}
+                    onChange={(e) => setOptions({ ...options, normalizeUnicode: e.target.checked })}
+                    className="w-5 h-5 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="text-slate-700 dark:text-slate-300">{t.optionNormalizeUnicode}</span>
+                </label>
+                <div className="pt-2 flex flex-wrap items-center gap-x-6 gap-y-3">
+                  <label className="flex flex-wrap items-center gap-3">
+                    <span className="text-slate-700 dark:text-slate-300">{t.optionOutputProfile}</span>
+                    <select
+                      value={options.outputProfile}
+                      onChange={(e) => setOptions({ ...options, outputProfile: e.target.value as OutputProfile })}
+                      className="rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 px-3 py-1.5 text-sm text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="utf8">{t.profileUtf8}</option>
+                      <option value="legacy">{t.profileLegacy}</option>
+                      <option value="compat">{t.profileCompat}</option>
+                    </select>
+                  </label>
+                  {options.outputProfile !== 'utf8' && (
+                    <label className="flex flex-wrap items-center gap-3">
+                      <span className="text-slate-700 dark:text-slate-300">{t.optionOutputEncoding}</span>
+                      <select
+                        value={options.outputEncoding ?? ''}
+                        onChange={(e) => setOptions({ ...options, outputEncoding: e.target.value || null })}
+                        className="rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 px-3 py-1.5 text-sm text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="">
+                          {t.outputEncodingDefault(
+                            OUTPUT_ENCODING_CHOICES.find((choice) => choice.encoding === nativeCodePage(currentLang))?.label ?? ''
+                          )}
+                        </option>
+                        {OUTPUT_ENCODING_CHOICES.map((choice) => (
+                          <option key={choice.encoding} value={choice.encoding}>
+                            {choice.label}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
+                  <label className="flex flex-wrap items-center gap-3">
+                    <span className="text-slate-700 dark:text-slate-300">{t.optionMetadata}</span>
+                    <select
+                      value={options.metadata}
+                      onChange={(e) => setOptions({ ...options, metadata: e.target.value as MetadataPolicy })}
+                      className="rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 px-3 py-1.5 text-sm text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="preserve">{t.metadataPreserve}</option>
+                      <option value="normalize">{t.metadataNormalize}</option>
+                      <option value="reset">{t.metadataReset}</option>
+                    </select>
+                  </label>
+                  <label className="flex flex-wrap items-center gap-3">
+                    <span className="text-slate-700 dark:text-slate-300">{t.optionWindowsNames}</span>
+                    <select
+                      value={options.windowsNames}
+                      onChange={(e) => setOptions({ ...options, windowsNames: e.target.value as WindowsNamePolicy })}
+                      className="rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 px-3 py-1.5 text-sm text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="fullwidth">{t.windowsNamesFullwidth}</option>
+                      <option value="underscore">{t.windowsNamesUnderscore}</option>
+                      <option value="truncate">{t.windowsNamesTruncate}</option>
+                      <option value="off">{t.windowsNamesOff}</option>
+                    </select>
+                  </label>
+                  <label className="flex flex-wrap items-center gap-3">
+                    <span className="text-slate-700 dark:text-slate-300">{t.optionCollisions}</span>
+                    <select
+                      value={options.collisions}
+                      onChange={(e) => setOptions({ ...options, collisions: e.target.value as CollisionPolicy })}
+                      className="rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 px-3 py-1.5 text-sm text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="suffix">{t.collisionsSuffix}</option>
+                      <option value="keep_newest">{t.collisionsKeepNewest}</option>
+                      <option value="abort">{t.collisionsAbort}</option>
+                    </select>
+                  </label>
+                  <label className="flex flex-wrap items-center gap-3">
+                    <span className="text-slate-700 dark:text-slate-300">{t.optionUnsafePaths}</span>
+                    <select
+                      value={options.unsafePaths}
+                      onChange={(e) => setOptions({ ...options, unsafePaths: e.target.value as UnsafePathPolicy })}
+                      className="rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 px-3 py-1.5 text-sm text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="sanitize">{t.unsafePathsSanitize}</option>
+                      <option value="drop">{t.unsafePathsDrop}</option>
+                    </select>
+                  </label>
+                  {mode === 'zip' && (
+                    <label className="flex flex-wrap items-center gap-3">
+                      <span className="text-slate-700 dark:text-slate-300">{t.optionLimitAction}</span>
+                      <select
+                        value={options.limitAction}
+                        onChange={(e) => setOptions({ ...options, limitAction: e.target.value as LimitAction })}
+                        className="rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 px-3 py-1.5 text-sm text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="refuse">{t.limitActionRefuse}</option>
+                        <option value="warn">{t.limitActionWarn}</option>
+                      </select>
+                    </label>
+                  )}
+                  {mode === 'zip' && encryptedFiles > 0 && (
+                    <label className="flex flex-wrap items-center gap-3">
+                      <span className="text-slate-700 dark:text-slate-300">{t.optionPassword}</span>
+                      <input
+                        type="password"
+                        autoComplete="off"
+                        value={options.password ?? ''}
+                        onChange={(e) => setOptions({ ...options, password: e.target.value || null })}
+                        className="rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 px-3 py-1.5 text-sm text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </label>
+                  )}
+                  {mode === 'zip' && encryptedFiles > 0 && (
+                    <label className="flex flex-wrap items-center gap-3">
+                      <span className="text-slate-700 dark:text-slate-300">{t.optionOutputEncryption}</span>
+                      <select
+                        value={options.outputEncryption}
+                        onChange={(e) => setOptions({ ...options, outputEncryption: e.target.value as OutputEncryption })}
+                        className="rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 px-3 py-1.5 text-sm text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="same">{t.outputEncryptionSame}</option>
+                        <option value="zipcrypto">{t.outputEncryptionZipCrypto}</option>
+                        <option value="aes256">{t.outputEncryptionAes256}</option>
+                      </select>
+                    </label>
+                  )}
+                  {mode === 'zip' && (
+                    <label className="flex flex-wrap items-center gap-3">
+                      <span className="text-slate-700 dark:text-slate-300">{t.optionDataMode}</span>
+                      <select
+                        value={options.dataMode}
+                        onChange={(e) => setOptions({ ...options, dataMode: e.target.value as DataMode })}
+                        className="rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 px-3 py-1.5 text-sm text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="copy">{t.dataModeCopy}</option>
+                        <option value="recompress">{t.dataModeRecompress}</option>
+                      </select>
+                    </label>
+                  )}
+                  {mode === 'zip' && (
+                    <label className="flex flex-wrap items-center gap-3">
+                      <span className="text-slate-700 dark:text-slate-300">{t.optionNestedDepth}</span>
+                      <select
+                        value={options.nestedDepth}
+                        onChange={(e) => setOptions({ ...options, nestedDepth: Number(e.target.value) })}
+                        className="rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 px-3 py-1.5 text-sm text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value={0}>{t.nestedDepthOff}</option>
+                        {[1, 2, 3].map((depth) => (
+                          <option key={depth} value={depth}>{t.nestedDepthLevels(depth)}</option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
+                </div>
+                <label className="flex items-center gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={options.embedReport}
+                    onChange={(e) => setOptions({ ...options, embedReport: e.target.checked })}
+                    className="w-5 h-5 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="text-slate-700 dark:text-slate-300">{t.optionEmbedReport}</span>
+                </label>
+                {canSaveToDisk && (
                   <label className="flex items-center gap-3 cursor-pointer">
                     <input
                       type="checkbox"
-                      checked={options.fixEncoding}
-                      onChange={(e) => setOptions({ ...options, fixEncoding: e.target.checked })}
+                      checked={saveToDisk}
+                      onChange={(e) => setSaveToDisk(e.target.checked)}
                       className="w-5 h-5 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
                     />
-                    <span className="text-slate-700 dark:text-slate-300">{t.optionFixEncoding}</span>
+                    <span className="text-slate-700 dark:text-slate-300">{t.optionSaveToDisk}</span>
                   </label>
                 )}
               </div>
@@ -925,7 +3078,7 @@ export default function Home() {
                     </>
                   )}
                 </button>
-              ) : (
+              ) : processedBlob ? (
                 <button
                   onClick={handleDownload}
                   className="px-8 py-4 bg-green-600 hover:bg-green-700 text-white font-medium rounded-xl shadow-lg shadow-green-500/30 hover:shadow-xl hover:shadow-green-500/40 transition-all flex items-center gap-2"
@@ -933,10 +3086,37 @@ export default function Home() {
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
                   </svg>
-                  {t.buttonDownload}
+                  {batch ? t.buttonDownloadAll : t.buttonDownload}
+                </button>
+              ) : (
+                <p className="px-8 py-4 text-green-700 dark:text-green-400 font-medium">{t.savedToDisk}</p>
+              )}
+              {status === 'processing' && (
+                <button
+                  onClick={handleCancel}
+                  className="px-8 py-4 bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200 font-medium rounded-xl border border-slate-300 dark:border-slate-600 transition-all"
+                >
+                  {t.buttonCancel}
                 </button>
               )}
             </div>
+
+            {/* Progress */}
+            {status === 'processing' && progress && (
+              <div className="max-w-md mx-auto">
+                <div className="h-2 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden">
+                  <div
+                    className="h-full bg-blue-600 transition-all"
+                    style={{
+                      width: `${progress.bytesTotal > 0 ? (100 * progress.bytesDone) / progress.bytesTotal : (100 * progress.entriesDone) / Math.max(progress.entriesTotal, 1)}%`,
+                    }}
+                  />
+                </div>
+                <p className="mt-2 text-sm text-center text-slate-500 dark:text-slate-400">
+                  {t.progressLabel(progress.entriesDone, progress.entriesTotal)}
+                </p>
+              </div>
+            )}
           </div>
         )}
 
@@ -0,0 +1,330 @@
+#!/usr/bin/env node
+// zip-fix: the fixes of the site from the command line, for ingestion pipelines and pre-commit hooks.
+// Exit codes: 0 nothing found, 1 issues found (and fixed, for fix and pack), 2 bad usage, 3 processing failed or
+// resource limits exceeded.
+import { existsSync } from 'node:fs';
+import { stat } from 'node:fs/promises';
+import { basename, dirname, join, resolve } from 'node:path';
+import {
+  exportReportJson,
+  ARCHIVE_EXTENSIONS,
+  DEFAULT_LIMITS,
+  DEFAULT_OPTIONS,
+  DiagnosticIssue,
+  DiagnosticReport,
+  LimitViolation,
+  ProcessingOptions,
+  ReportContext,
+  ResourceLimits,
+} from '../lib/zip-fix';
+import { analyzePath, fixArchiveFile, isFolder, packFolder } from '../lib/zip-fix-node';
+
+const EXIT_OK = 0;
+const EXIT_ISSUES = 1;
+const EXIT_USAGE = 2;
+const EXIT_FAILED = 3;
+
+const PASSWORD_VARIABLE = 'ZIP_FIX_PASSWORD';
+
+const USAGE = `Usage: zip-fix <command> [options] <path>
+
+Commands:
+  analyze <archive|folder>   Report the issues without writing anything
+  fix <archive>              Write a fixed copy of a ZIP, TAR or TAR.GZ archive
+  pack <folder>              Pack a folder into a ZIP with the same fixes
+
+Output:
+  -o, --output <file>        Output ZIP (default: <name>_fixed.zip or <folder>.zip next to the input)
+  --json                     Print the report as JSON instead of text
+  -h, --help                 Show this help
+
+Names:
+  --[no-]fix-encoding        Convert legacy code page names to UTF-8 (default: on)
+  --[no-]normalize-unicode   Normalize decomposed names to NFC (default: on)
+  --encoding <label>         Code page of names without the UTF-8 flag, instead of detecting it
+  --language <code>          Language used as a hint when detecting the code page (ko, ja, zh, ...)
+  --windows-names <policy>   fullwidth | underscore | truncate | off (default: fullwidth)
+  --collisions <policy>      suffix | keep_newest | abort (default: suffix)
+  --unsafe-paths <policy>    sanitize | drop (default: sanitize)
+
+Entries:
+  --[no-]remove-macos-artifacts  Remove __MACOSX folders (default: on)
+  --[no-]remove-ds-store     Remove .DS_Store files (default: on)
+  --[no-]remove-hidden-files Remove hidden files (default: off)
+  --exclude <path>           Leave an entry out, by its original path (repeatable)
+  --include <path>           Keep an entry the options would remove (repeatable)
+  --rename <path>=<name>     Give an entry a name by hand (repeatable)
+
+Output archive:
+  --output-profile <profile> utf8 | legacy | compat (default: utf8)
+  --output-encoding <label>  Code page for legacy and compat names
+  --metadata <policy>        preserve | normalize | reset (default: preserve)
+  --data-mode <mode>         copy | recompress (default: copy)
+  --nested-depth <levels>    Levels of inner ZIPs to fix as well (default: 0)
+  --[no-]embed-report        Add _fix-report.json to the output (default: off)
+
+Encryption:
+  --password <password>      Opens encrypted entries; ${PASSWORD_VARIABLE} is read when it is not given
+  --output-encryption <method> same | zipcrypto | aes256 (default: same)
+
+Limits:
+  --max-entries <count>      (default: ${DEFAULT_LIMITS.maxEntries})
+  --max-total-size <bytes>   (default: ${DEFAULT_LIMITS.maxTotalSize})
+  --max-ratio <ratio>        (default: ${DEFAULT_LIMITS.maxRatio})
+  --max-nesting-depth <levels> (default: ${DEFAULT_LIMITS.maxNestingDepth})
+  --limit-action <action>    warn | refuse (default: refuse)
+
+Exit codes: 0 no issues, 1 issues found, 2 bad usage, 3 processing failed.
+`;
+
+type Command = 'analyze' | 'fix' | 'pack';
+
+interface CliArguments {
+  command: Command;
+  path: string;
+  output: string | null;
+  json: boolean;
+  options: Partial<ProcessingOptions>;
+}
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+// Flags that set a ProcessingOptions field directly
+const BOOLEAN_FLAGS: Record<string, keyof ProcessingOptions> = {
+  'remove-macos-artifacts': 'removeMAcOSArtifacts',
+  'remove-ds-store': 'removeDSStore',
+  'remove-hidden-files': 'removeHiddenFiles',
+  'fix-encoding': 'fixEncoding',
+  'normalize-unicode': 'normalizeUnicode',
+  'embed-report': 'embedReport',
+};
+
+const STRING_FLAGS: Record<string, keyof ProcessingOptions> = {
+  encoding: 'forcedEncoding',
+  language: 'languageHint',
+  'output-encoding': 'outputEncoding',
+  password: 'password',
+};
+
+const CHOICE_FLAGS: Record<string, [keyof ProcessingOptions, string[]]> = {
+  'output-profile': ['outputProfile', ['utf8', 'legacy', 'compat']],
+  metadata: ['metadata', ['preserve', 'normalize', 'reset']],
+  'data-mode': ['dataMode', ['copy', 'recompress']],
+  'windows-names': ['windowsNames', ['fullwidth', 'underscore', 'truncate', 'off']],
+  collisions: ['collisions', ['suffix', 'keep_newest', 'abort']],
+  'unsafe-paths': ['unsafePaths', ['sanitize', 'drop']],
+  'limit-action': ['limitAction', ['warn', 'refuse']],
+  'output-encryption': ['outputEncryption', ['same', 'zipcrypto', 'aes256']],
+};
+
+const LIMIT_FLAGS: Record<string, keyof ResourceLimits> = {
+  'max-entries': 'maxEntries',
+  'max-total-size': 'maxTotalSize',
+  'max-ratio': 'maxRatio',
+  'max-nesting-depth': 'maxNestingDepth',
+};
+
+function parseCount(flag: string, value: string): number {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) throw new UsageError(`--${flag} needs a whole number, got "${value}"`);
+  return count;
+}
+
+function parseArguments(args: string[]): CliArguments | null {
+  const positional: string[] = [];
+  const options: Partial<ProcessingOptions> = { overrides: {} };
+  const limits: ResourceLimits = { ...DEFAULT_LIMITS };
+  let output: string | null = null;
+  let json = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('-') || arg === '-') {
+      positional.push(arg);
+      continue;
+    }
+    if (arg === '--') {
+      positional.push(...args.slice(i + 1));
+      break;
+    }
+    if (arg === '-h' || arg === '--help') return null;
+
+    const equals = arg.indexOf('=');
+    const flag = (equals < 0 ? arg : arg.slice(0, equals)).replace(/^--?/, '');
+    const inline = equals < 0 ? null : arg.slice(equals + 1);
+    const value = () => {
+      if (inline !== null) return inline;
+      if (i + 1 >= args.length) throw new UsageError(`--${flag} needs a value`);
+      return args[++i];
+    };
+
+    if (flag === 'json') {
+      json = true;
+    } else if (flag === 'o' || flag === 'output') {
+      output = value();
+    } else if (flag in BOOLEAN_FLAGS || (flag.startsWith('no-') && flag.slice(3) in BOOLEAN_FLAGS)) {
+      const negated = !(flag in BOOLEAN_FLAGS);
+      Object.assign(options, { [BOOLEAN_FLAGS[negated ? flag.slice(3) : flag]]: !negated });
+    } else if (flag in STRING_FLAGS) {
+      Object.assign(options, { [STRING_FLAGS[flag]]: value() });
+    } else if (flag in CHOICE_FLAGS) {
+      const [option, choices] = CHOICE_FLAGS[flag];
+      const choice = value();
+      if (!choices.includes(choice)) throw new UsageError(`--${flag} must be one of ${choices.join(', ')}`);
+      Object.assign(options, { [option]: choice });
+    } else if (flag in LIMIT_FLAGS) {
+      limits[LIMIT_FLAGS[flag]] = parseCount(flag, value());
+    } else if (flag === 'nested-depth') {
+      options.nestedDepth = parseCount(flag, value());
+    } else if (flag === 'exclude' || flag === 'include') {
+      const path = value();
+      options.overrides![path] = { ...options.overrides![path], include: flag === 'include' };
+    } else if (flag === 'rename') {
+      const rename = value();
+      // The new name may contain = signs, the path is everything before the first one
+      const separator = rename.indexOf('=');
+      if (separator <= 0) throw new UsageError('--rename needs <path>=<name>');
+      const path = rename.slice(0, separator);
+      options.overrides![path] = { ...options.overrides![path], rename: rename.slice(separator + 1) };
+    } else {
+      throw new UsageError(`Unknown option ${arg}`);
+    }
+  }
+
+  const [command, path, ...rest] = positional;
+  if (command === undefined) throw new UsageError('Missing command');
+  if (command !== 'analyze' && command !== 'fix' && command !== 'pack') throw new UsageError(`Unknown command "${command}"`);
+  if (path === undefined) throw new UsageError(`${command} needs a path`);
+  if (rest.length > 0) throw new UsageError(`Unexpected argument "${rest[0]}"`);
+  if (options.password === undefined && process.env[PASSWORD_VARIABLE]) options.password = process.env[PASSWORD_VARIABLE];
+  return { command, path, output, json, options: { ...options, limits } };
+}
+
+// Next to the input: archive_fixed.zip for an archive, folder.zip for a folder
+function defaultOutput(command: Command, path: string): string {
+  const name = basename(resolve(path));
+  if (command === 'pack') return join(dirname(resolve(path)), `${name}.zip`);
+  const extension = ARCHIVE_EXTENSIONS.find(candidate => name.toLowerCase().endsWith(candidate));
+  return join(dirname(resolve(path)), `${extension ? name.slice(0, -extension.length) : name}_fixed.zip`);
+}
+
+// Issues of the archive and of every nested archive
+function countIssues(report: DiagnosticReport): number {
+  return report.issues.length + report.nested.reduce((sum, nested) => sum + (nested.report ? countIssues(nested.report) : 0), 0);
+}
+
+// Resource limits the archive and every nested archive go over
+function countViolations(report: DiagnosticReport): number {
+  return (
+    (report.scan?.violations.length ?? 0) +
+    report.nested.reduce((sum, nested) => sum + (nested.report ? countViolations(nested.report) : 0), 0)
+  );
+}
+
+function violationLine(violation: LimitViolation): string {
+  const value = violation.limit === 'ratio' ? violation.value.toFixed(1) : violation.value;
+  return (
+    `${'limit'.padEnd(8)} ${violation.limit.padEnd(18)} ${value} > ${violation.max}` +
+    (violation.path !== undefined ? ` (${violation.path})` : '')
+  );
+}
+
+function issueLine(issue: DiagnosticIssue): string {
+  const details = [
+    ...(issue.unsafeProblems ?? []),
+    ...(issue.windowsProblems ?? []),
+    ...(issue.encryption ? [issue.previousEncryption ? `${issue.previousEncryption} → ${issue.encryption}` : issue.encryption] : []),
+    ...(issue.conflictsWith ? [`conflicts with ${issue.conflictsWith}`] : []),
+  ];
+  return (
+    `${issue.action.padEnd(8)} ${issue.code.padEnd(18)} ${issue.originalPath}` +
+    (issue.fixedPath !== undefined ? ` -> ${issue.fixedPath}` : '') +
+    (details.length > 0 ? ` (${details.join(', ')})` : '')
+  );
+}
+
+function printReport(report: DiagnosticReport, indent = ''): void {
+  for (const violation of report.scan?.violations ?? []) console.log(`${indent}${violationLine(violation)}`);
+  for (const issue of report.issues) console.log(`${indent}${issueLine(issue)}`);
+  for (const nested of report.nested) {
+    const summary = nested.report
+      ? `${countIssues(nested.report)} issue(s)${violationSummary(nested.report)}`
+      : `kept as is (${nested.error})`;
+    console.log(`${indent}${nested.path}: ${summary}`);
+    if (nested.report) printReport(nested.report, `${indent}  `);
+  }
+}
+
+function violationSummary(report: DiagnosticReport): string {
+  const violations = countViolations(report);
+  return violations > 0 ? `, ${violations} resource limit(s) exceeded` : '';
+}
+
+function printSummary(report: DiagnosticReport, source: string, output: string | null): void {
+  printReport(report);
+  const encoding = report.detectedEncoding ? `, names in ${report.detectedEncoding}` : '';
+  console.log(`${source}: ${report.totalFiles} file(s), ${countIssues(report)} issue(s)${violationSummary(report)}${encoding}`);
+  if (output) console.log(`Written to ${output}`);
+}
+
+async function run(args: CliArguments): Promise<number> {
+  const { command, path, json, options } = args;
+  if (!existsSync(path)) throw new UsageError(`${path} does not exist`);
+  const folder = await isFolder(path);
+  if (command === 'fix' && folder) throw new UsageError('fix takes an archive, use pack for folders');
+  if (command === 'pack' && !folder) throw new UsageError('pack takes a folder, use fix for archives');
+
+  let report: DiagnosticReport;
+  let output: string | null = null;
+  if (command === 'analyze') {
+    report = await analyzePath(path, options);
+  } else {
+    output = args.output ?? defaultOutput(command, path);
+    if (resolve(output) === resolve(path)) throw new UsageError('The output would overwrite the input');
+    report = command === 'fix' ? await fixArchiveFile(path, output, options) : await packFolder(path, output, options);
+  }
+
+  if (json) {
+    const context: ReportContext = {
+      sourceName: basename(resolve(path)),
+      sourceSize: folder ? null : (await stat(path)).size,
+      options: { ...DEFAULT_OPTIONS, ...options },
+      stage: command === 'analyze' ? 'analysis' : 'processing',
+    };
+    console.log(exportReportJson(report, context));
+  } else {
+    printSummary(report, basename(resolve(path)), output);
+  }
+  // With limitAction warn the archive gets this far, but it still failed the limits fix would refuse it for
+  if (countViolations(report) > 0) return EXIT_FAILED;
+  return countIssues(report) > 0 ? EXIT_ISSUES : EXIT_OK;
+}
+
+async function main(): Promise<number> {
+  let args: CliArguments | null;
+  try {
+    args = parseArguments(process.argv.slice(2));
+    if (args === null) {
+      process.stdout.write(USAGE);
+      return EXIT_OK;
+    }
+    return await run(args);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.error(`zip-fix: ${message}`);
+    if (err instanceof UsageError) {
+      console.error('Run zip-fix --help for the options.');
+      return EXIT_USAGE;
+    }
+    return EXIT_FAILED;
+  }
+}
+
+main().then(code => {
+  process.exitCode = code;
+});
@@ -0,0 +1,50 @@
+// Reading drag-and-drop payloads. A drop only hands over a folder's contents through the
+// File and Directory Entries API, so directories are walked here into the same paths a
+// webkitdirectory input gives (relative, starting with the folder's own name).
+import type { FolderFile } from './zip-processor';
+
+export interface DroppedItems {
+  files: FolderFile[];
+  hasDirectories: boolean;
+}
+
+function readFile(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+// readEntries returns the children in batches (100 in Chrome) and an empty batch at the end
+async function readDirectory(entry: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = entry.createReader();
+  const children: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return children;
+    children.push(...batch);
+  }
+}
+
+async function collectFiles(entry: FileSystemEntry, files: FolderFile[]): Promise<void> {
+  if (entry.isFile) {
+    files.push({ file: await readFile(entry as FileSystemFileEntry), path: entry.fullPath.replace(/^\//, '') });
+  } else if (entry.isDirectory) {
+    for (const child of await readDirectory(entry as FileSystemDirectoryEntry)) {
+      await collectFiles(child, files);
+    }
+  }
+}
+
+export async function readDroppedItems(dataTransfer: DataTransfer): Promise<DroppedItems> {
+  // The item list is emptied once the drop handler yields, so the entries are taken before anything is awaited
+  const items = Array.from(dataTransfer.items).filter(item => item.kind === 'file');
+  const entries = items.map(item => item.webkitGetAsEntry?.() ?? null);
+  if (entries.some(entry => entry === null)) {
+    // No entries API: only the top-level files are available
+    return { files: Array.from(dataTransfer.files).map(file => ({ file, path: file.name })), hasDirectories: false };
+  }
+
+  const files: FolderFile[] = [];
+  for (const entry of entries) {
+    await collectFiles(entry!, files);
+  }
+  return { files, hasDirectories: entries.some(entry => entry!.isDirectory) };
+}
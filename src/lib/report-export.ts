@@ -0,0 +1,287 @@
+// Diagnostic report export: JSON with a versioned schema, CSV of the issues and a self-contained HTML page.
+// The JSON layout is the contract; bump REPORT_SCHEMA_VERSION whenever a field is renamed, removed or changes meaning.
+import type {
+  ArchiveFormat,
+  ArchiveScan,
+  DiagnosticIssue,
+  DiagnosticReport,
+  IssueAction,
+  IssueCode,
+  IssueType,
+  NameCollision,
+  NameSource,
+  ProcessingOptions,
+  ReviewEntry,
+} from './zip-processor';
+
+export const REPORT_SCHEMA = 'zip-fix-report';
+export const REPORT_SCHEMA_VERSION = 2;
+
+// Name of the JSON report inside the output ZIP when embedReport is set
+export const REPORT_ENTRY_NAME = '_fix-report.json';
+
+export interface ReportContext {
+  sourceName: string; // Archive file name, or the folder name
+  sourceSize: number | null;
+  options: ProcessingOptions;
+  stage: 'analysis' | 'processing';
+}
+
+export interface ExportedIssue {
+  type: IssueType;
+  code: IssueCode;
+  action: IssueAction;
+  originalPath: string;
+  fixedPath: string | null;
+  size: number | null; // Uncompressed size of the entry
+  crc32: string | null; // 8 hex digits
+  nameSource: NameSource | null;
+  layers: number | null;
+  problems: string[]; // Windows or unsafe path problems
+  conflictsWith: string | null;
+  encryption: string | null;
+  previousEncryption: string | null;
+}
+
+export interface ExportedEntry {
+  originalPath: string;
+  fixedPath: string | null;
+  size: number;
+  crc32: string | null;
+  issueTypes: IssueType[];
+}
+
+export interface ExportedArchive {
+  format: ArchiveFormat | null;
+  encoding: { detected: string | null; score: number; nameSources: Record<NameSource, number> };
+  summary: {
+    totalFiles: number;
+    macosArtifacts: number;
+    dsStoreFiles: number;
+    encodingIssues: number;
+    mojibakeIssues: number;
+    normalizationIssues: number;
+    windowsNameIssues: number;
+    unsafePathIssues: number;
+    hiddenFiles: number;
+    encryptedFiles: number;
+    bytesCopied: number;
+    bytesRecompressed: number;
+  };
+  issues: ExportedIssue[];
+  entries: ExportedEntry[];
+  collisions: NameCollision[];
+  scan: ArchiveScan | null;
+  nested: ExportedNestedArchive[];
+}
+
+export interface ExportedNestedArchive {
+  path: string;
+  originalPath: string;
+  error: string | null;
+  archive: ExportedArchive | null;
+}
+
+export interface ExportedReport extends ExportedArchive {
+  schema: typeof REPORT_SCHEMA;
+  version: typeof REPORT_SCHEMA_VERSION;
+  generatedAt: string; // ISO 8601
+  stage: ReportContext['stage'];
+  source: { name: string; size: number | null };
+  options: Omit<ProcessingOptions, 'password'> & { password: boolean }; // Only whether one was given
+}
+
+function hexCrc32(crc: number | null): string | null {
+  return crc === null ? null : crc.toString(16).padStart(8, '0');
+}
+
+function exportIssue(issue: DiagnosticIssue, entry: ReviewEntry | undefined): ExportedIssue {
+  return {
+    type: issue.type,
+    code: issue.code,
+    action: issue.action,
+    originalPath: issue.originalPath,
+    fixedPath: issue.fixedPath ?? null,
+    size: entry?.size ?? null,
+    crc32: hexCrc32(entry?.crc32 ?? null),
+    nameSource: issue.nameSource ?? null,
+    layers: issue.layers ?? null,
+    problems: [...(issue.windowsProblems ?? []), ...(issue.unsafeProblems ?? [])],
+    conflictsWith: issue.conflictsWith ?? null,
+    encryption: issue.encryption ?? null,
+    previousEncryption: issue.previousEncryption ?? null,
+  };
+}
+
+function exportArchive(report: DiagnosticReport): ExportedArchive {
+  const entries = new Map(report.entries.map(entry => [entry.originalPath, entry]));
+  return {
+    format: report.format,
+    encoding: { detected: report.detectedEncoding, score: report.encodingScore, nameSources: report.nameSources },
+    summary: {
+      totalFiles: report.totalFiles,
+      macosArtifacts: report.macosArtifacts,
+      dsStoreFiles: report.dsStoreFiles,
+      encodingIssues: report.encodingIssues,
+      mojibakeIssues: report.mojibakeIssues,
+      normalizationIssues: report.normalizationIssues,
+      windowsNameIssues: report.windowsNameIssues,
+      unsafePathIssues: report.unsafePathIssues,
+      hiddenFiles: report.hiddenFiles,
+      encryptedFiles: report.encryptedFiles,
+      bytesCopied: report.bytesCopied,
+      bytesRecompressed: report.bytesRecompressed,
+    },
+    issues: report.issues.map(issue => exportIssue(issue, entries.get(issue.originalPath))),
+    entries: report.entries.map(entry => ({
+      originalPath: entry.originalPath,
+      fixedPath: entry.fixedPath,
+      size: entry.size,
+      crc32: hexCrc32(entry.crc32),
+      issueTypes: entry.issueTypes,
+    })),
+    collisions: report.collisions,
+    scan: report.scan,
+    nested: report.nested.map(nested => ({
+      path: nested.path,
+      originalPath: nested.originalPath,
+      error: nested.error ?? null,
+      archive: nested.report ? exportArchive(nested.report) : null,
+    })),
+  };
+}
+
+export function buildExportedReport(report: DiagnosticReport, context: ReportContext): ExportedReport {
+  const { password, ...options } = context.options;
+  return {
+    schema: REPORT_SCHEMA,
+    version: REPORT_SCHEMA_VERSION,
+    generatedAt: new Date().toISOString(),
+    stage: context.stage,
+    source: { name: context.sourceName, size: context.sourceSize },
+    options: { ...options, password: password !== null },
+    ...exportArchive(report),
+  };
+}
+
+export function exportReportJson(report: DiagnosticReport, context: ReportContext): string {
+  return JSON.stringify(buildExportedReport(report, context), null, 2);
+}
+
+// The archive and every nested archive that could be opened, with their paths ('' = top level)
+function flattenArchives(archive: ExportedArchive, archivePath = ''): [string, ExportedArchive][] {
+  return [
+    [archivePath, archive],
+    ...archive.nested.flatMap(nested =>
+      nested.archive ? flattenArchives(nested.archive, archivePath ? `${archivePath}/${nested.path}` : nested.path) : []
+    ),
+  ];
+}
+
+// Issues of the archive and its nested archives, each with the path of the archive it belongs to
+function flattenIssues(archive: ExportedArchive): [string, ExportedIssue][] {
+  return flattenArchives(archive).flatMap(([archivePath, { issues }]) =>
+    issues.map((issue): [string, ExportedIssue] => [archivePath, issue])
+  );
+}
+
+const CSV_COLUMNS = ['archive', 'type', 'code', 'action', 'original_path', 'fixed_path', 'size', 'crc32', 'problems'];
+
+// Entry names come from untrusted archives: a leading = + - @ (or tab, CR) would run as a spreadsheet formula,
+// so such text fields get a ' in front
+function csvField(value: string | number | null): string {
+  const raw = value === null ? '' : String(value);
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per issue. Starts with a BOM so spreadsheet apps read the paths as UTF-8.
+export function exportReportCsv(report: DiagnosticReport, context: ReportContext): string {
+  const rows = flattenIssues(buildExportedReport(report, context)).map(([archive, issue]) =>
+    [
+      archive,
+      issue.type,
+      issue.code,
+      issue.action,
+      issue.originalPath,
+      issue.fixedPath,
+      issue.size,
+      issue.crc32,
+      issue.problems.join(' '),
+    ]
+      .map(csvField)
+      .join(',')
+  );
+  return `\uFEFF${[CSV_COLUMNS.join(','), ...rows].join('\r\n')}\r\n`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function htmlIssueRow(archivePath: string, issue: ExportedIssue): string {
+  return (
+    `<tr><td>${escapeHtml(archivePath)}</td><td>${issue.type}</td><td>${issue.code}</td><td>${issue.action}</td>` +
+    `<td>${escapeHtml(issue.originalPath)}</td><td>${escapeHtml(issue.fixedPath ?? '')}</td>` +
+    `<td class="num">${issue.size ?? ''}</td><td>${issue.crc32 ?? ''}</td><td>${issue.problems.join(' ')}</td></tr>`
+  );
+}
+
+const HTML_STYLE = `
+body { font: 14px/1.5 system-ui, sans-serif; margin: 2rem; color: #1e293b; }
+h1 { font-size: 1.5rem; } h2 { font-size: 1.1rem; margin-top: 2rem; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border: 1px solid #cbd5e1; padding: 4px 8px; text-align: left; vertical-align: top; word-break: break-all; }
+th { background: #f1f5f9; }
+td.num { text-align: right; white-space: nowrap; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 2px 16px; }
+dt { font-weight: 600; }
+@media print { body { margin: 0; } }
+`;
+
+// A single page with no external resources, meant to be printed or attached as is
+export function exportReportHtml(report: DiagnosticReport, context: ReportContext): string {
+  const exported = buildExportedReport(report, context);
+  const issues = flattenIssues(exported);
+  const summary = Object.entries(exported.summary)
+    .map(([key, value]) => `<dt>${key}</dt><dd>${value}</dd>`)
+    .join('');
+  const options = Object.entries(exported.options)
+    .map(([key, value]) => `<dt>${key}</dt><dd>${escapeHtml(JSON.stringify(value))}</dd>`)
+    .join('');
+  const issueRows =
+    issues.length > 0
+      ? issues.map(([archivePath, issue]) => htmlIssueRow(archivePath, issue)).join('\n')
+      : `<tr><td colspan="${CSV_COLUMNS.length}">-</td></tr>`;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(exported.source.name)} - ZIP fix report</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<h1>${escapeHtml(exported.source.name)}</h1>
+<dl>
+<dt>stage</dt><dd>${exported.stage}</dd>
+<dt>generatedAt</dt><dd>${exported.generatedAt}</dd>
+<dt>format</dt><dd>${exported.format ?? 'folder'}</dd>
+<dt>size</dt><dd>${exported.source.size ?? ''}</dd>
+<dt>detectedEncoding</dt><dd>${escapeHtml(exported.encoding.detected ?? '-')} (${exported.encoding.score})</dd>
+</dl>
+<h2>Summary</h2>
+<dl>${summary}</dl>
+<h2>Issues (${issues.length})</h2>
+<table>
+<thead><tr>${CSV_COLUMNS.map(column => `<th>${column}</th>`).join('')}</tr></thead>
+<tbody>
+${issueRows}
+</tbody>
+</table>
+<h2>Options</h2>
+<dl>${options}</dl>
+</body>
+</html>
+`;
+}
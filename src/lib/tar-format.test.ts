@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { isTarHeader, readTarDirectory } from './tar-format';
+import { concatBytes, readEntryData } from './zip-format';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function bytes(text: string | Uint8Array): Uint8Array {
+  return typeof text === 'string' ? encoder.encode(text) : text;
+}
+
+function octal(value: number, length: number): Uint8Array {
+  return encoder.encode(`${value.toString(8).padStart(length - 1, '0')}\0`);
+}
+
+// A ustar header block with its checksum
+function header(name: string | Uint8Array, type: string, size: number, { linkName = '', prefix = '' } = {}): Uint8Array {
+  const block = new Uint8Array(512);
+  block.set(bytes(name), 0);
+  block.set(octal(0o644, 8), 100);
+  block.set(octal(size, 12), 124);
+  block.set(octal(1700000000, 12), 136);
+  block[156] = type.charCodeAt(0);
+  block.set(bytes(linkName), 157);
+  block.set(bytes('ustar\u000000'), 257);
+  block.set(bytes(prefix), 345);
+  block.fill(0x20, 148, 156);
+  block.set(octal(block.reduce((sum, byte) => sum + byte, 0), 7), 148);
+  return block;
+}
+
+function padded(data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(Math.ceil(data.length / 512) * 512);
+  out.set(data);
+  return out;
+}
+
+function member(name: string | Uint8Array, content = '', options: { linkName?: string; prefix?: string } = {}): Uint8Array {
+  const data = bytes(content);
+  return concatBytes([header(name, '0', data.length, options), padded(data)]);
+}
+
+function directory(name: string): Uint8Array {
+  return header(name, '5', 0);
+}
+
+// "<length> <key>=<value>\n", the length counting its own digits
+function paxRecord(key: string, value: string | Uint8Array): Uint8Array {
+  const body = concatBytes([bytes(` ${key}=`), bytes(value), bytes('\n')]);
+  let length = body.length;
+  while (String(length).length + body.length !== length) length = String(length).length + body.length;
+  return concatBytes([bytes(String(length)), body]);
+}
+
+function paxHeader(...records: Uint8Array[]): Uint8Array {
+  const data = concatBytes(records);
+  return concatBytes([header('PaxHeader', 'x', data.length), padded(data)]);
+}
+
+function tar(...blocks: Uint8Array[]): Blob {
+  return new Blob([concatBytes([...blocks, new Uint8Array(1024)]) as Uint8Array<ArrayBuffer>]);
+}
+
+function names(entries: { rawName: Uint8Array }[]): string[] {
+  return entries.map(entry => decoder.decode(entry.rawName));
+}
+
+// 한글.txt in CP949, which is not valid UTF-8
+const CP949_NAME = new Uint8Array([0xc7, 0xd1, 0xb1, 0xdb, 0x2e, 0x74, 0x78, 0x74]);
+
+describe('readTarDirectory', () => {
+  it('reads ustar members with their data and joins the prefix field', async () => {
+    const file = tar(directory('docs/'), member('docs/a.txt', 'hello'), member('b.txt', 'world', { prefix: 'deep/path' }));
+    expect(isTarHeader(new Uint8Array(await file.slice(0, 512).arrayBuffer()))).toBe(true);
+
+    const { entries, data } = await readTarDirectory(file);
+    expect(names(entries)).toEqual(['docs/', 'docs/a.txt', 'deep/path/b.txt']);
+    expect(entries[0].isDirectory).toBe(true);
+    expect(decoder.decode(await readEntryData(data, entries[1]))).toBe('hello');
+    expect(decoder.decode(await readEntryData(data, entries[2]))).toBe('world');
+  });
+
+  it('takes the name from a UTF-8 pax path record', async () => {
+    const file = tar(paxHeader(paxRecord('path', '한글/문서.txt')), member('short.txt', 'pax'));
+
+    const { entries, data } = await readTarDirectory(file);
+    expect(names(entries)).toEqual(['한글/문서.txt']);
+    expect(entries[0].utf8Flag).toBe(true);
+    expect(decoder.decode(await readEntryData(data, entries[0]))).toBe('pax');
+  });
+
+  it('leaves pax paths that are not UTF-8 to legacy detection', async () => {
+    const file = tar(paxHeader(paxRecord('path', CP949_NAME)), member('short.txt'));
+
+    const { entries } = await readTarDirectory(file);
+    expect(entries[0].rawName).toEqual(CP949_NAME);
+    expect(entries[0].utf8Flag).toBe(false);
+  });
+
+  it('does not flag pax paths declared binary as UTF-8', async () => {
+    const file = tar(paxHeader(paxRecord('hdrcharset', 'BINARY'), paxRecord('path', 'plain.txt')), member('short.txt'));
+
+    const { entries } = await readTarDirectory(file);
+    expect(names(entries)).toEqual(['plain.txt']);
+    expect(entries[0].utf8Flag).toBe(false);
+  });
+
+  it('strips ./ prefixes and skips the ./ member itself', async () => {
+    const file = tar(
+      directory('./'),
+      directory('./dir/'),
+      member('./dir/a.txt', 'linked'),
+      member('./.hidden'),
+      header('./dir/b.txt', '1', 0, { linkName: './dir/a.txt' })
+    );
+
+    const { entries, data } = await readTarDirectory(file);
+    expect(names(entries)).toEqual(['dir/', 'dir/a.txt', '.hidden', 'dir/b.txt']);
+    expect(decoder.decode(await readEntryData(data, entries[3]))).toBe('linked');
+  });
+});
@@ -0,0 +1,265 @@
+// TAR reading (v7, ustar, pax and GNU long names) with optional gzip.
+// Members are described as ZIP entry records so the ZIP pipeline can analyze and repack them:
+// names stay raw bytes, data is located through dataOffset, and CRCs are unknown (0) until recompressed.
+import { HOST_UNIX, METHOD_STORE, ZipEntryRecord } from './zip-format';
+
+const BLOCK_SIZE = 512;
+
+const S_IFREG = 0o100000;
+const S_IFDIR = 0o040000;
+const S_IFLNK = 0o120000;
+
+// Header layout
+const NAME = [0, 100];
+const MODE = [100, 8];
+const SIZE = [124, 12];
+const MTIME = [136, 12];
+const CHECKSUM = [148, 8];
+const TYPEFLAG = 156;
+const LINKNAME = [157, 100];
+const MAGIC = [257, 6];
+const PREFIX = [345, 155];
+
+const USTAR_MAGIC = 'ustar\0'; // POSIX; GNU writes "ustar  " and has no prefix field
+
+export interface TarDirectory {
+  entries: ZipEntryRecord[];
+  data: Blob; // The archive, plus the symlink targets the entries point into
+}
+
+async function readBytes(file: Blob, start: number, end: number): Promise<Uint8Array> {
+  return new Uint8Array(await file.slice(start, end).arrayBuffer());
+}
+
+// A NUL-terminated header field
+function field(header: Uint8Array, [start, length]: number[]): Uint8Array {
+  const bytes = header.subarray(start, start + length);
+  const end = bytes.indexOf(0);
+  return end < 0 ? bytes : bytes.subarray(0, end);
+}
+
+function trimNul(bytes: Uint8Array): Uint8Array {
+  const end = bytes.indexOf(0);
+  return end < 0 ? bytes : bytes.subarray(0, end);
+}
+
+// Octal, or big-endian base-256 when the high bit of the first byte is set (GNU, for values that do not fit)
+function readNumber(header: Uint8Array, [start, length]: number[]): number {
+  if (header[start] & 0x80) {
+    let value = header[start] & 0x7f;
+    for (let i = 1; i < length; i++) value = value * 256 + header[start + i];
+    return value;
+  }
+  const text = new TextDecoder().decode(field(header, [start, length])).trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+// The checksum is the byte sum of the header with the checksum field itself counted as spaces
+function checksumMatches(header: Uint8Array): boolean {
+  let sum = 0;
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    sum += i >= CHECKSUM[0] && i < CHECKSUM[0] + CHECKSUM[1] ? 0x20 : header[i];
+  }
+  return sum === readNumber(header, CHECKSUM);
+}
+
+export function isGzip(head: Uint8Array): boolean {
+  return head[0] === 0x1f && head[1] === 0x8b;
+}
+
+// A TAR archive has no magic number that every writer sets, so a valid first header is the test
+export function isTarHeader(head: Uint8Array): boolean {
+  return head.length >= BLOCK_SIZE && !head.subarray(0, BLOCK_SIZE).every(byte => byte === 0) && checksumMatches(head);
+}
+
+// Decompress a gzip file, failing once the output passes maxSize (null = unlimited)
+export async function gunzip(file: Blob, maxSize: number | null): Promise<Blob> {
+  let total = 0;
+  const limit = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      total += chunk.length;
+      if (maxSize !== null && total > maxSize) {
+        throw new Error('Decompressed archive is larger than the total size limit');
+      }
+      controller.enqueue(chunk);
+    },
+  });
+  const decompressed = file
+    .stream()
+    .pipeThrough(new DecompressionStream('gzip') as unknown as ReadableWritablePair<Uint8Array, Uint8Array>)
+    .pipeThrough(limit);
+  return new Response(decompressed).blob();
+}
+
+// pax extended header records: "<length> <key>=<value>\n", lengths in bytes. Values are kept as bytes
+// because hdrcharset=BINARY allows paths that are not UTF-8.
+function parsePaxRecords(data: Uint8Array): Map<string, Uint8Array> {
+  const records = new Map<string, Uint8Array>();
+  const decoder = new TextDecoder();
+  let pos = 0;
+  while (pos < data.length) {
+    const space = data.indexOf(0x20, pos);
+    if (space < 0) break;
+    const length = parseInt(decoder.decode(data.subarray(pos, space)), 10);
+    if (!(length > 0) || pos + length > data.length) break;
+    const record = data.subarray(space + 1, pos + length - 1); // Without the trailing newline
+    const equals = record.indexOf(0x3d);
+    if (equals > 0) records.set(decoder.decode(record.subarray(0, equals)), record.subarray(equals + 1));
+    pos += length;
+  }
+  return records;
+}
+
+// GNU tar writes names in the local code page into pax path records without declaring hdrcharset
+function isValidUtf8(bytes: Uint8Array): boolean {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// "./dir/file" from `tar -cf x.tar .` is "dir/file"; the "./" member itself becomes empty and is skipped
+function stripDotSegments(name: Uint8Array): Uint8Array {
+  let start = 0;
+  while (name[start] === 0x2e && (name[start + 1] === 0x2f || start + 1 === name.length)) {
+    start += 2;
+    while (name[start] === 0x2f) start++;
+  }
+  return name.subarray(Math.min(start, name.length));
+}
+
+function joinBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const out = new Uint8Array(a.length + b.length);
+  out.set(a);
+  out.set(b, a.length);
+  return out;
+}
+
+// Read every member header. Data is not read: entries point into the archive blob, symlink targets
+// (which TAR keeps in the header) are appended to it, and hard links share the data of their target.
+export async function readTarDirectory(file: Blob): Promise<TarDirectory> {
+  const decoder = new TextDecoder();
+  const entries: ZipEntryRecord[] = [];
+  const byName = new Map<string, ZipEntryRecord>();
+  const linkTargets: Uint8Array[] = [];
+  let linkOffset = file.size;
+
+  let globalRecords = new Map<string, Uint8Array>();
+  let records = new Map<string, Uint8Array>();
+  let longName: Uint8Array | null = null;
+  let longLink: Uint8Array | null = null;
+
+  let pos = 0;
+  while (pos + BLOCK_SIZE <= file.size) {
+    const header = await readBytes(file, pos, pos + BLOCK_SIZE);
+    if (header.every(byte => byte === 0)) break; // End of archive
+    if (!checksumMatches(header)) {
+      throw new Error(`Invalid TAR header checksum at offset ${pos}`);
+    }
+
+    const type = header[TYPEFLAG] === 0 ? '0' : String.fromCharCode(header[TYPEFLAG]);
+    const dataStart = pos + BLOCK_SIZE;
+    const headerSize = readNumber(header, SIZE);
+
+    // Headers that describe the next member
+    if (type === 'x' || type === 'g' || type === 'L' || type === 'K') {
+      const data = await readBytes(file, dataStart, dataStart + headerSize);
+      if (type === 'x') records = parsePaxRecords(data);
+      else if (type === 'g') globalRecords = new Map([...globalRecords, ...parsePaxRecords(data)]);
+      else if (type === 'L') longName = trimNul(data);
+      else longLink = trimNul(data);
+      pos = dataStart + Math.ceil(headerSize / BLOCK_SIZE) * BLOCK_SIZE;
+      continue;
+    }
+
+    const pax = new Map([...globalRecords, ...records]);
+    const paxText = (key: string) => (pax.has(key) ? decoder.decode(pax.get(key)) : null);
+    const size = paxText('size') !== null ? Number(paxText('size')) : headerSize;
+    const binary = paxText('hdrcharset') === 'BINARY';
+
+    let rawName: Uint8Array;
+    let utf8Flag = false;
+    if (pax.has('path')) {
+      rawName = pax.get('path')!;
+      utf8Flag = !binary && isValidUtf8(rawName); // pax values are UTF-8 unless declared binary, or not valid
+    } else if (longName) {
+      rawName = longName;
+    } else {
+      rawName = field(header, NAME);
+      const prefix = field(header, PREFIX);
+      if (decoder.decode(header.subarray(MAGIC[0], MAGIC[0] + MAGIC[1])) === USTAR_MAGIC && prefix.length > 0) {
+        rawName = joinBytes(joinBytes(prefix, new Uint8Array([0x2f])), rawName);
+      }
+    }
+    rawName = stripDotSegments(rawName);
+    const linkName = pax.get('linkpath') ?? longLink ?? field(header, LINKNAME);
+    records = new Map();
+    longName = null;
+    longLink = null;
+    pos = dataStart + Math.ceil((type === '0' || type === '7' ? size : headerSize) / BLOCK_SIZE) * BLOCK_SIZE;
+
+    if (rawName.length === 0) continue; // The archive root
+    const isDirectory = type === '5' || (type === '0' && rawName[rawName.length - 1] === 0x2f);
+    if (isDirectory && rawName[rawName.length - 1] !== 0x2f) rawName = joinBytes(rawName, new Uint8Array([0x2f]));
+
+    const mtime = paxText('mtime') !== null ? Number(paxText('mtime')) : readNumber(header, MTIME);
+    const modified = new Date(Math.floor(mtime) * 1000);
+    const permissions = readNumber(header, MODE) & 0o7777;
+
+    let fileType: number;
+    let dataOffset: number;
+    let dataSize: number;
+    if (isDirectory) {
+      fileType = S_IFDIR;
+      dataOffset = dataStart;
+      dataSize = 0;
+    } else if (type === '0' || type === '7') {
+      fileType = S_IFREG;
+      dataOffset = dataStart;
+      dataSize = size;
+    } else if (type === '1') {
+      const target = byName.get(decoder.decode(stripDotSegments(linkName)));
+      if (!target) continue; // Link to a member that is not in the archive
+      fileType = S_IFREG;
+      dataOffset = target.dataOffset!;
+      dataSize = target.uncompressedSize;
+    } else if (type === '2') {
+      fileType = S_IFLNK;
+      linkTargets.push(linkName);
+      dataOffset = linkOffset;
+      dataSize = linkName.length;
+      linkOffset += linkName.length;
+    } else {
+      continue; // Devices, FIFOs, sparse files and volume labels have nothing a ZIP can hold
+    }
+
+    const entry: ZipEntryRecord = {
+      rawName,
+      utf8Flag,
+      flags: 0,
+      versionMadeBy: (HOST_UNIX << 8) | 20,
+      externalAttributes: ((fileType | permissions) << 16) >>> 0,
+      lastModified: modified,
+      unixModified: modified,
+      compressionMethod: METHOD_STORE,
+      crc32: 0,
+      compressedSize: dataSize,
+      uncompressedSize: dataSize,
+      localHeaderOffset: 0,
+      isDirectory,
+      rawComment: new Uint8Array(0),
+      unicodePath: null,
+      unicodeComment: null,
+      encryption: null,
+      aes: null,
+      dataOffset,
+    };
+    entries.push(entry);
+    byName.set(decoder.decode(rawName), entry);
+  }
+
+  const data = linkTargets.length > 0 ? new Blob([file, ...linkTargets.map(target => target.slice())]) : file;
+  return { entries, data };
+}
@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createHmacSha1,
+  decryptEntry,
+  encryptAesBlock,
+  encryptEntry,
+  expandAesKey,
+  sha1,
+  verifyPassword,
+  EncryptionTarget,
+  PasswordError,
+} from './zip-crypto';
+import {
+  compressContent,
+  createBlobSink,
+  createZipWriter,
+  decompressStream,
+  readZipDirectory,
+  HOST_DOS,
+  ZipEntryRecord,
+} from './zip-format';
+
+const PASSWORD = 'correct horse';
+const CONTENT = new TextEncoder().encode('Encrypted entry content. '.repeat(200));
+
+// A one-entry archive, written the way processing writes re-encrypted entries
+async function encryptedZip(target: EncryptionTarget): Promise<{ blob: Blob; entry: ZipEntryRecord }> {
+  const { data, ...info } = await compressContent(CONTENT);
+  const encrypted = await encryptEntry(new Blob([data as Uint8Array<ArrayBuffer>]).stream(), info, target);
+  const { sink, getBlob } = createBlobSink();
+  const output = createZipWriter(sink);
+  await output.addEntry(
+    {
+      name: new TextEncoder().encode('secret.txt'),
+      utf8Flag: true,
+      extraField: encrypted.extraField,
+      comment: new Uint8Array(0),
+      date: new Date(2024, 0, 1),
+      host: HOST_DOS,
+      externalAttributes: 0,
+      encrypted: true,
+    },
+    encrypted.info,
+    encrypted.data
+  );
+  await output.close();
+  const blob = getBlob();
+  const { entries } = await readZipDirectory(blob);
+  return { blob, entry: entries[0] };
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+const TARGETS: [string, EncryptionTarget][] = [
+  ['ZipCrypto', { method: 'zipcrypto', password: PASSWORD, aesStrength: 3, aesVersion: 2 }],
+  ['AES-128 (AE-1)', { method: 'aes', password: PASSWORD, aesStrength: 1, aesVersion: 1 }],
+  ['AES-256 (AE-2)', { method: 'aes', password: PASSWORD, aesStrength: 3, aesVersion: 2 }],
+];
+
+describe.each(TARGETS)('%s round trip', (_, target) => {
+  it('decrypts back to the original content with the right password', async () => {
+    const { blob, entry } = await encryptedZip(target);
+    expect(entry.encryption).toBe(target.method);
+
+    await verifyPassword(blob, [entry], PASSWORD);
+    const { data, info } = await decryptEntry(blob, entry, PASSWORD);
+    expect(await readAll(decompressStream(data, info.compressionMethod, info.uncompressedSize))).toEqual(CONTENT);
+  });
+
+  it('refuses a wrong password', async () => {
+    const { blob, entry } = await encryptedZip(target);
+    await expect(verifyPassword(blob, [entry], 'wrong horse')).rejects.toBeInstanceOf(PasswordError);
+  });
+});
+
+function hex(text: string): Uint8Array {
+  return Uint8Array.from(text.match(/../g)!, byte => parseInt(byte, 16));
+}
+
+function ascii(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+function filled(byte: number, length: number): Uint8Array {
+  return new Uint8Array(length).fill(byte);
+}
+
+describe('known-answer vectors', () => {
+  it('encrypts the FIPS-197 AES-256 example block', () => {
+    const key = hex('000102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f');
+    const output = new Uint8Array(16);
+    encryptAesBlock(expandAesKey(key), hex('00112233445566778899aabbccddeeff'), output);
+    expect(output).toEqual(hex('8ea2b7ca516745bfeafc49904b496089'));
+  });
+
+  // RFC 3174, section 7.3
+  it.each([
+    ['abc', 1, 'a9993e364706816aba3e25717850c26c9cd0d89d'],
+    ['abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq', 1, '84983e441c3bd26ebaae4aa1f95129e5e54670f1'],
+    ['a', 1000000, '34aa973cd4c4daa4f61eeb2bdbad27316534016f'],
+    ['0123456701234567012345670123456701234567012345670123456701234567', 10, 'dea356a2cddd90c7a7ecedc5ebb563934f460452'],
+  ])('hashes the SHA-1 test %#', (text, repeat, digest) => {
+    expect(sha1(ascii(text.repeat(repeat)))).toEqual(hex(digest));
+  });
+
+  // RFC 2202, section 3
+  it.each([
+    [filled(0x0b, 20), ascii('Hi There'), 'b617318655057264e28bc0b6fb378c8ef146be00'],
+    [ascii('Jefe'), ascii('what do ya want for nothing?'), 'effcdf6ae5eb2fa2d27416d5f184df9c259a7c79'],
+    [filled(0xaa, 20), filled(0xdd, 50), '125d7342b9ac11cd91a39af48aa17b4f63f175d3'],
+    [filled(0xaa, 80), ascii('Test Using Larger Than Block-Size Key - Hash Key First'), 'aa4ae5e15272d00e95705637ce8a3b55ed402112'],
+    [
+      filled(0xaa, 80),
+      ascii('Test Using Larger Than Block-Size Key and Larger Than One Block-Size Data'),
+      'e8e99d0f45237d786d6bbaa7965c7808bbff1a91',
+    ],
+  ])('authenticates the HMAC-SHA1 test %#, also when fed in pieces', (key, data, digest) => {
+    const whole = createHmacSha1(key);
+    whole.update(data);
+    expect(whole.digest()).toEqual(hex(digest));
+
+    const pieces = createHmacSha1(key);
+    for (let i = 0; i < data.length; i += 7) pieces.update(data.subarray(i, i + 7));
+    expect(pieces.digest()).toEqual(hex(digest));
+  });
+});
+
+// note.txt, encrypted with the password "correct horse" by other archivers:
+//   bsdtar --format zip --options zip:encryption=aes256 --passphrase 'correct horse' -cf bsdtar-aes256.zip note.txt
+//   zip -X -P 'correct horse' infozip-zipcrypto.zip note.txt
+// with bsdtar 3.7.7 (libarchive 3.7.7) and Info-ZIP Zip 3.0. Both write a data descriptor after the data.
+const NOTE = 'Encrypted by an external tool.\n';
+const EXTERNAL_ARCHIVES: [string, string, string][] = [
+  [
+    'bsdtar AES-256',
+    'aes',
+    'UEsDBBQACQBjAAAAIVgAAAAAAAAAAAAAAAAIACsAbm90ZS50eHR1eAsAAQQAAAAABAAAAAABmQcAAQBBRQMIAFVUDQAHgACSZYAAkmVWp9Vq158tmivkZsmFkcwbvcL/' +
+      'sSE18/fiXHl3gHWyl3W9PtRcSYXq0BeRoNozSN9anzGTn+DY9liH2x2FvEMv9VBLBwiK8aG2PQAAAB8AAABQSwECFAMUAAkAYwAAACFYivGhtj0AAAAfAAAACAAjAAAA' +
+      'AAAAAAAApIEAAAAAbm90ZS50eHR1eAsAAQQAAAAABAAAAAABmQcAAQBBRQMIAFVUBQABgACSZVBLBQYAAAAAAQABAFkAAACeAAAAAAA=',
+  ],
+  [
+    'Info-ZIP ZipCrypto',
+    'zipcrypto',
+    'UEsDBAoACQAAAAAAIViK8aG2KwAAAB8AAAAIAAAAbm90ZS50eHTMyIRCMSKiSXqT8hVcZwNGcqWTgWkXxFBR7ldeLQ6Aj0/1QHWHjd0NnuiNUEsHCIrxobYrAAAAHwAA' +
+      'AFBLAQIeAwoACQAAAAAAIViK8aG2KwAAAB8AAAAIAAAAAAAAAAEAAACkgQAAAABub3RlLnR4dFBLBQYAAAAAAQABADYAAABhAAAAAAA=',
+  ],
+];
+
+describe.each(EXTERNAL_ARCHIVES)('%s archive', (_, method, base64) => {
+  const blob = new Blob([Uint8Array.from(atob(base64), char => char.charCodeAt(0))]);
+
+  it('decrypts with the right password', async () => {
+    const { entries } = await readZipDirectory(blob);
+    expect(entries[0].encryption).toBe(method);
+
+    await verifyPassword(blob, entries, PASSWORD);
+    const { data, info } = await decryptEntry(blob, entries[0], PASSWORD);
+    const content = await readAll(decompressStream(data, info.compressionMethod, info.uncompressedSize));
+    expect(new TextDecoder().decode(content)).toBe(NOTE);
+  });
+
+  it('refuses a wrong password', async () => {
+    const { entries } = await readZipDirectory(blob);
+    await expect(verifyPassword(blob, entries, 'wrong horse')).rejects.toBeInstanceOf(PasswordError);
+  });
+});
@@ -0,0 +1,500 @@
+// Entry encryption: traditional PKWARE encryption (ZipCrypto) and WinZip AES (AE-1/AE-2).
+// WebCrypto covers neither: ZipCrypto is not a standard cipher, WinZip runs AES-CTR with a
+// little-endian counter, and its HMAC cannot be fed in chunks. Only PBKDF2 comes from WebCrypto,
+// the rest is implemented here so entries of any size can be streamed through.
+import {
+  aesExtraField,
+  concatBytes,
+  crc32,
+  crc32Update,
+  decompressStream,
+  sliceEntryData,
+  toDosDateTime,
+  FLAG_DATA_DESCRIPTOR,
+  METHOD_AES,
+  EncryptionMethod,
+  ZipEntryData,
+  ZipEntryRecord,
+} from './zip-format';
+
+const ZIPCRYPTO_HEADER_LENGTH = 12;
+const AES_VERIFIER_LENGTH = 2;
+const AES_MAC_LENGTH = 10;
+const AES_PBKDF2_ITERATIONS = 1000;
+
+// Thrown when a password is missing or does not open the entries; the name survives the trip back from the worker
+export class PasswordError extends Error {
+  constructor(message = 'Wrong password') {
+    super(message);
+    this.name = 'PasswordError';
+  }
+}
+
+async function readBlob(blob: Blob): Promise<Uint8Array> {
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+// ZipCrypto
+
+function zipCryptoKeys(password: Uint8Array): Uint32Array {
+  const keys = new Uint32Array([0x12345678, 0x23456789, 0x34567890]);
+  for (const byte of password) updateZipCryptoKeys(keys, byte);
+  return keys;
+}
+
+function updateZipCryptoKeys(keys: Uint32Array, byte: number) {
+  keys[0] = crc32Update(keys[0], byte);
+  keys[1] = Math.imul(keys[1] + (keys[0] & 0xff), 134775813) + 1;
+  keys[2] = crc32Update(keys[2], keys[1] >>> 24);
+}
+
+function zipCryptoStreamByte(keys: Uint32Array): number {
+  const temp = (keys[2] | 2) & 0xffff;
+  return ((temp * (temp ^ 1)) >>> 8) & 0xff;
+}
+
+function zipCryptoDecrypt(keys: Uint32Array, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    out[i] = data[i] ^ zipCryptoStreamByte(keys);
+    updateZipCryptoKeys(keys, out[i]);
+  }
+  return out;
+}
+
+function zipCryptoEncrypt(keys: Uint32Array, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    out[i] = data[i] ^ zipCryptoStreamByte(keys);
+    updateZipCryptoKeys(keys, data[i]);
+  }
+  return out;
+}
+
+// The last header byte checks the password: high byte of the CRC, or of the DOS time when the CRC follows the data
+function zipCryptoCheckByte(entry: ZipEntryRecord): number {
+  return entry.flags & FLAG_DATA_DESCRIPTOR ? (toDosDateTime(entry.lastModified).time >>> 8) & 0xff : entry.crc32 >>> 24;
+}
+
+// AES block cipher (encryption only, which is all CTR mode needs)
+
+const SBOX = new Uint8Array(256);
+const TE0 = new Uint32Array(256);
+const TE1 = new Uint32Array(256);
+const TE2 = new Uint32Array(256);
+const TE3 = new Uint32Array(256);
+
+function xtime(a: number): number {
+  return ((a << 1) ^ (a & 0x80 ? 0x1b : 0)) & 0xff;
+}
+
+(() => {
+  // Inverses from log/antilog tables over the generator 3, then the affine transform
+  const exp = new Uint8Array(255);
+  const log = new Uint8Array(256);
+  for (let i = 0, x = 1; i < 255; i++, x ^= xtime(x)) {
+    exp[i] = x;
+    log[x] = i;
+  }
+  for (let i = 0; i < 256; i++) {
+    const inverse = i === 0 ? 0 : exp[(255 - log[i]) % 255];
+    let s = inverse;
+    let r = inverse;
+    for (let k = 0; k < 4; k++) {
+      r = ((r << 1) | (r >>> 7)) & 0xff;
+      s ^= r;
+    }
+    SBOX[i] = s ^ 0x63;
+  }
+  for (let i = 0; i < 256; i++) {
+    const s = SBOX[i];
+    const word = ((xtime(s) << 24) | (s << 16) | (s << 8) | (xtime(s) ^ s)) >>> 0;
+    TE0[i] = word;
+    TE1[i] = ((word >>> 8) | (word << 24)) >>> 0;
+    TE2[i] = ((word >>> 16) | (word << 16)) >>> 0;
+    TE3[i] = ((word >>> 24) | (word << 8)) >>> 0;
+  }
+})();
+
+function subWord(word: number): number {
+  return (
+    ((SBOX[word >>> 24] << 24) | (SBOX[(word >>> 16) & 0xff] << 16) | (SBOX[(word >>> 8) & 0xff] << 8) | SBOX[word & 0xff]) >>>
+    0
+  );
+}
+
+// Round keys for a 128, 192 or 256-bit key
+export function expandAesKey(key: Uint8Array): Uint32Array {
+  const keyWords = key.length / 4;
+  const roundKeys = new Uint32Array(4 * (keyWords + 7));
+  const kv = new DataView(key.buffer, key.byteOffset, key.byteLength);
+  for (let i = 0; i < keyWords; i++) roundKeys[i] = kv.getUint32(4 * i);
+  let rcon = 1;
+  for (let i = keyWords; i < roundKeys.length; i++) {
+    let temp = roundKeys[i - 1];
+    if (i % keyWords === 0) {
+      temp = subWord(((temp << 8) | (temp >>> 24)) >>> 0) ^ (rcon << 24);
+      rcon = xtime(rcon);
+    } else if (keyWords > 6 && i % keyWords === 4) {
+      temp = subWord(temp);
+    }
+    roundKeys[i] = (roundKeys[i - keyWords] ^ temp) >>> 0;
+  }
+  return roundKeys;
+}
+
+export function encryptAesBlock(roundKeys: Uint32Array, input: Uint8Array, output: Uint8Array) {
+  const rounds = roundKeys.length / 4 - 1;
+  let s0 = ((input[0] << 24) | (input[1] << 16) | (input[2] << 8) | input[3]) ^ roundKeys[0];
+  let s1 = ((input[4] << 24) | (input[5] << 16) | (input[6] << 8) | input[7]) ^ roundKeys[1];
+  let s2 = ((input[8] << 24) | (input[9] << 16) | (input[10] << 8) | input[11]) ^ roundKeys[2];
+  let s3 = ((input[12] << 24) | (input[13] << 16) | (input[14] << 8) | input[15]) ^ roundKeys[3];
+  let k = 4;
+  for (let round = 1; round < rounds; round++, k += 4) {
+    const t0 = TE0[s0 >>> 24] ^ TE1[(s1 >>> 16) & 0xff] ^ TE2[(s2 >>> 8) & 0xff] ^ TE3[s3 & 0xff] ^ roundKeys[k];
+    const t1 = TE0[s1 >>> 24] ^ TE1[(s2 >>> 16) & 0xff] ^ TE2[(s3 >>> 8) & 0xff] ^ TE3[s0 & 0xff] ^ roundKeys[k + 1];
+    const t2 = TE0[s2 >>> 24] ^ TE1[(s3 >>> 16) & 0xff] ^ TE2[(s0 >>> 8) & 0xff] ^ TE3[s1 & 0xff] ^ roundKeys[k + 2];
+    const t3 = TE0[s3 >>> 24] ^ TE1[(s0 >>> 16) & 0xff] ^ TE2[(s1 >>> 8) & 0xff] ^ TE3[s2 & 0xff] ^ roundKeys[k + 3];
+    s0 = t0;
+    s1 = t1;
+    s2 = t2;
+    s3 = t3;
+  }
+  const last = [s0, s1, s2, s3];
+  for (let i = 0; i < 4; i++) {
+    const word =
+      ((SBOX[last[i] >>> 24] << 24) |
+        (SBOX[(last[(i + 1) % 4] >>> 16) & 0xff] << 16) |
+        (SBOX[(last[(i + 2) % 4] >>> 8) & 0xff] << 8) |
+        SBOX[last[(i + 3) % 4] & 0xff]) ^
+      roundKeys[k + i];
+    output[4 * i] = word >>> 24;
+    output[4 * i + 1] = word >>> 16;
+    output[4 * i + 2] = word >>> 8;
+    output[4 * i + 3] = word;
+  }
+}
+
+// WinZip's AES-CTR: a 128-bit little-endian counter starting at 1. Encryption and decryption are the same XOR.
+function createAesCtr(key: Uint8Array): (data: Uint8Array) => Uint8Array {
+  const roundKeys = expandAesKey(key);
+  const counter = new Uint8Array(16);
+  const keystream = new Uint8Array(16);
+  let used = 16;
+  return data => {
+    const out = new Uint8Array(data.length);
+    for (let i = 0; i < data.length; i++) {
+      if (used === 16) {
+        for (let j = 0; j < 16; j++) {
+          counter[j]++;
+          if (counter[j] !== 0) break;
+        }
+        encryptAesBlock(roundKeys, counter, keystream);
+        used = 0;
+      }
+      out[i] = data[i] ^ keystream[used++];
+    }
+    return out;
+  };
+}
+
+// SHA-1 and HMAC-SHA1, incremental so the authentication code can follow a stream
+
+export interface Hash {
+  update(data: Uint8Array): void;
+  digest(): Uint8Array;
+}
+
+function createSha1(): Hash {
+  const state = new Uint32Array([0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0]);
+  const block = new Uint8Array(64);
+  const words = new Uint32Array(80);
+  let blockLength = 0;
+  let totalLength = 0;
+
+  const compress = () => {
+    for (let i = 0; i < 16; i++) {
+      words[i] = (block[4 * i] << 24) | (block[4 * i + 1] << 16) | (block[4 * i + 2] << 8) | block[4 * i + 3];
+    }
+    for (let i = 16; i < 80; i++) {
+      const x = words[i - 3] ^ words[i - 8] ^ words[i - 14] ^ words[i - 16];
+      words[i] = (x << 1) | (x >>> 31);
+    }
+    let [a, b, c, d, e] = state;
+    for (let i = 0; i < 80; i++) {
+      const f =
+        i < 20 ? ((b & c) | (~b & d)) + 0x5a827999
+        : i < 40 ? (b ^ c ^ d) + 0x6ed9eba1
+        : i < 60 ? ((b & c) | (b & d) | (c & d)) + 0x8f1bbcdc
+        : (b ^ c ^ d) + 0xca62c1d6;
+      const temp = (((a << 5) | (a >>> 27)) + f + e + words[i]) >>> 0;
+      e = d;
+      d = c;
+      c = ((b << 30) | (b >>> 2)) >>> 0;
+      b = a;
+      a = temp;
+    }
+    state[0] += a;
+    state[1] += b;
+    state[2] += c;
+    state[3] += d;
+    state[4] += e;
+  };
+
+  const update = (data: Uint8Array) => {
+    totalLength += data.length;
+    for (let i = 0; i < data.length; ) {
+      const take = Math.min(64 - blockLength, data.length - i);
+      block.set(data.subarray(i, i + take), blockLength);
+      blockLength += take;
+      i += take;
+      if (blockLength === 64) {
+        compress();
+        blockLength = 0;
+      }
+    }
+  };
+
+  return {
+    update,
+    digest() {
+      const bitLength = totalLength * 8;
+      const padding = new Uint8Array((blockLength < 56 ? 56 : 120) - blockLength + 8);
+      padding[0] = 0x80;
+      const pv = new DataView(padding.buffer);
+      pv.setUint32(padding.length - 8, Math.floor(bitLength / 0x100000000));
+      pv.setUint32(padding.length - 4, bitLength >>> 0);
+      update(padding);
+      const digest = new Uint8Array(20);
+      const dv = new DataView(digest.buffer);
+      state.forEach((word, i) => dv.setUint32(4 * i, word));
+      return digest;
+    },
+  };
+}
+
+export function sha1(data: Uint8Array): Uint8Array {
+  const hash = createSha1();
+  hash.update(data);
+  return hash.digest();
+}
+
+export function createHmacSha1(key: Uint8Array): Hash {
+  const padded = new Uint8Array(64);
+  padded.set(key.length > 64 ? sha1(key) : key);
+  const inner = createSha1();
+  inner.update(padded.map(byte => byte ^ 0x36));
+  return {
+    update: data => inner.update(data),
+    digest() {
+      const outer = createSha1();
+      outer.update(padded.map(byte => byte ^ 0x5c));
+      outer.update(inner.digest());
+      return outer.digest();
+    },
+  };
+}
+
+// WinZip AES keys
+
+function aesSaltLength(strength: number): number {
+  return 4 * (strength + 1); // 8, 12 or 16 bytes
+}
+
+// PBKDF2-HMAC-SHA1 yields the encryption key, the authentication key and the 2-byte password verifier
+async function deriveAesKeys(
+  password: Uint8Array,
+  salt: Uint8Array,
+  strength: number
+): Promise<{ encryptionKey: Uint8Array; macKey: Uint8Array; verifier: Uint8Array }> {
+  const keyLength = 8 * (strength + 1); // 16, 24 or 32 bytes
+  const baseKey = await crypto.subtle.importKey('raw', password as BufferSource, 'PBKDF2', false, ['deriveBits']);
+  const bits = new Uint8Array(
+    await crypto.subtle.deriveBits(
+      { name: 'PBKDF2', hash: 'SHA-1', salt: salt as BufferSource, iterations: AES_PBKDF2_ITERATIONS },
+      baseKey,
+      (2 * keyLength + AES_VERIFIER_LENGTH) * 8
+    )
+  );
+  return {
+    encryptionKey: bits.subarray(0, keyLength),
+    macKey: bits.subarray(keyLength, 2 * keyLength),
+    verifier: bits.subarray(2 * keyLength),
+  };
+}
+
+// Decrypt the stored bytes of an entry. The result is still compressed with info.compressionMethod;
+// info.crc32 is 0 for AE-2 entries, which do not keep the CRC.
+export async function decryptEntry(
+  file: Blob,
+  entry: ZipEntryRecord,
+  password: string
+): Promise<{ data: ReadableStream<Uint8Array>; info: ZipEntryData }> {
+  const slice = await sliceEntryData(file, entry);
+  const passwordBytes = new TextEncoder().encode(password);
+
+  if (entry.encryption === 'aes') {
+    if (!entry.aes) throw new Error('AES-encrypted entry without an AES extra field');
+    const saltLength = aesSaltLength(entry.aes.strength);
+    const dataStart = saltLength + AES_VERIFIER_LENGTH;
+    const header = await readBlob(slice.slice(0, dataStart));
+    const keys = await deriveAesKeys(passwordBytes, header.subarray(0, saltLength), entry.aes.strength);
+    if (!bytesEqual(keys.verifier, header.subarray(saltLength))) throw new PasswordError();
+
+    const expectedMac = await readBlob(slice.slice(slice.size - AES_MAC_LENGTH));
+    const mac = createHmacSha1(keys.macKey);
+    const ctr = createAesCtr(keys.encryptionKey);
+    const data = slice
+      .slice(dataStart, slice.size - AES_MAC_LENGTH)
+      .stream()
+      .pipeThrough(
+        new TransformStream<Uint8Array, Uint8Array>({
+          transform(chunk, controller) {
+            mac.update(chunk);
+            controller.enqueue(ctr(chunk));
+          },
+          flush() {
+            if (!bytesEqual(mac.digest().subarray(0, AES_MAC_LENGTH), expectedMac)) {
+              throw new Error('AES authentication code mismatch: the entry data is corrupted');
+            }
+          },
+        })
+      );
+    return {
+      data,
+      info: {
+        compressionMethod: entry.aes.method,
+        crc32: entry.crc32,
+        compressedSize: slice.size - dataStart - AES_MAC_LENGTH,
+        uncompressedSize: entry.uncompressedSize,
+      },
+    };
+  }
+
+  const keys = zipCryptoKeys(passwordBytes);
+  const header = zipCryptoDecrypt(keys, await readBlob(slice.slice(0, ZIPCRYPTO_HEADER_LENGTH)));
+  if (header[ZIPCRYPTO_HEADER_LENGTH - 1] !== zipCryptoCheckByte(entry)) throw new PasswordError();
+  const data = slice
+    .slice(ZIPCRYPTO_HEADER_LENGTH)
+    .stream()
+    .pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+          controller.enqueue(zipCryptoDecrypt(keys, chunk));
+        },
+      })
+    );
+  return {
+    data,
+    info: {
+      compressionMethod: entry.compressionMethod,
+      crc32: entry.crc32,
+      compressedSize: slice.size - ZIPCRYPTO_HEADER_LENGTH,
+      uncompressedSize: entry.uncompressedSize,
+    },
+  };
+}
+
+export interface EncryptionTarget {
+  method: EncryptionMethod;
+  password: string;
+  aesStrength: number; // 1-3, AES only
+  aesVersion: number; // 1 keeps the CRC, 2 writes 0 instead; AES only
+}
+
+// Encrypt compressed entry data. ZipCrypto needs the CRC of the content for its check byte.
+// The returned extra field has to be added to the entry headers.
+export async function encryptEntry(
+  data: ReadableStream<Uint8Array>,
+  info: ZipEntryData,
+  target: EncryptionTarget
+): Promise<{ data: ReadableStream<Uint8Array>; info: ZipEntryData; extraField: Uint8Array }> {
+  const passwordBytes = new TextEncoder().encode(target.password);
+
+  if (target.method === 'aes') {
+    const salt = crypto.getRandomValues(new Uint8Array(aesSaltLength(target.aesStrength)));
+    const keys = await deriveAesKeys(passwordBytes, salt, target.aesStrength);
+    const mac = createHmacSha1(keys.macKey);
+    const ctr = createAesCtr(keys.encryptionKey);
+    const encrypted = data.pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        start(controller) {
+          controller.enqueue(concatBytes([salt, keys.verifier]));
+        },
+        transform(chunk, controller) {
+          const out = ctr(chunk);
+          mac.update(out);
+          controller.enqueue(out);
+        },
+        flush(controller) {
+          controller.enqueue(mac.digest().slice(0, AES_MAC_LENGTH));
+        },
+      })
+    );
+    return {
+      data: encrypted,
+      info: {
+        compressionMethod: METHOD_AES,
+        crc32: target.aesVersion === 2 ? 0 : info.crc32,
+        compressedSize: info.compressedSize + salt.length + AES_VERIFIER_LENGTH + AES_MAC_LENGTH,
+        uncompressedSize: info.uncompressedSize,
+      },
+      extraField: aesExtraField({ version: target.aesVersion, strength: target.aesStrength, method: info.compressionMethod }),
+    };
+  }
+
+  const keys = zipCryptoKeys(passwordBytes);
+  const header = crypto.getRandomValues(new Uint8Array(ZIPCRYPTO_HEADER_LENGTH));
+  header[ZIPCRYPTO_HEADER_LENGTH - 1] = info.crc32 >>> 24;
+  const encryptedHeader = zipCryptoEncrypt(keys, header);
+  const encrypted = data.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      start(controller) {
+        controller.enqueue(encryptedHeader);
+      },
+      transform(chunk, controller) {
+        controller.enqueue(zipCryptoEncrypt(keys, chunk));
+      },
+    })
+  );
+  return {
+    data: encrypted,
+    info: { ...info, compressedSize: info.compressedSize + ZIPCRYPTO_HEADER_LENGTH },
+    extraField: new Uint8Array(0),
+  };
+}
+
+// CRC32 of the decrypted content, for AE-2 entries that are re-encrypted with ZipCrypto
+export async function decryptedCrc32(file: Blob, entry: ZipEntryRecord, password: string): Promise<number> {
+  const { data, info } = await decryptEntry(file, entry, password);
+  const reader = decompressStream(data, info.compressionMethod, info.uncompressedSize).getReader();
+  let crc = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return crc;
+    crc = crc32(value, crc);
+  }
+}
+
+// Open the smallest entry of each encryption method completely, so a wrong password fails before
+// anything is written: the ZipCrypto check byte alone lets 1 in 256 wrong passwords through
+export async function verifyPassword(file: Blob, entries: ZipEntryRecord[], password: string): Promise<void> {
+  for (const method of ['zipcrypto', 'aes'] as const) {
+    const candidates = entries.filter(entry => entry.encryption === method);
+    if (candidates.length === 0) continue;
+    const smallest = candidates.reduce((a, b) => (b.compressedSize < a.compressedSize ? b : a));
+    let crc: number;
+    try {
+      crc = await decryptedCrc32(file, smallest, password);
+    } catch (err) {
+      if (err instanceof PasswordError) throw err;
+      throw new PasswordError();
+    }
+    const crcKnown = !(smallest.aes && smallest.aes.version === 2);
+    if (crcKnown && crc !== smallest.crc32) throw new PasswordError();
+  }
+}
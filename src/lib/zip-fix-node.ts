@@ -0,0 +1,91 @@
+// File system paths on top of zip-fix.ts, for Node only. Files are opened as Blobs backed by the disk
+// (fs.openAsBlob), so archives are read in slices as they are processed instead of loaded whole.
+import { createWriteStream, openAsBlob } from 'node:fs';
+import { readdir, rm, stat } from 'node:fs/promises';
+import { basename, join } from 'node:path';
+import { Writable } from 'node:stream';
+import {
+  analyzeArchive,
+  analyzeFiles,
+  fixArchiveToStream,
+  packFilesToStream,
+  DiagnosticReport,
+  PackInput,
+  ProcessingOptions,
+  TaskControl,
+} from './zip-fix';
+
+// A file on disk as a File, named and dated as on disk
+export async function openFile(path: string): Promise<File> {
+  const [blob, info] = await Promise.all([openAsBlob(path), stat(path)]);
+  return new File([blob as Blob], basename(path), { lastModified: info.mtimeMs });
+}
+
+// Every regular file under a folder, with paths starting with the folder's own name as a picked folder has them.
+// Symbolic links are skipped: they can point anywhere on the disk.
+export async function readFolderFiles(path: string): Promise<PackInput[]> {
+  const files: PackInput[] = [];
+  const walk = async (directory: string, relative: string) => {
+    const children = await readdir(directory, { withFileTypes: true });
+    children.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+    for (const child of children) {
+      const childPath = join(directory, child.name);
+      const childRelative = `${relative}/${child.name}`;
+      if (child.isDirectory()) await walk(childPath, childRelative);
+      else if (child.isFile()) {
+        const { mode } = await stat(childPath);
+        files.push({ path: childRelative, data: await openFile(childPath), mode });
+      }
+    }
+  };
+  await walk(path, basename(path));
+  return files;
+}
+
+function fileSink(path: string): WritableStream<Uint8Array> {
+  return Writable.toWeb(createWriteStream(path)) as unknown as WritableStream<Uint8Array>;
+}
+
+// Write into a file through a sink, removing what was written if it fails
+async function writeFile(path: string, write: (sink: WritableStream<Uint8Array>) => Promise<DiagnosticReport>) {
+  try {
+    return await write(fileSink(path));
+  } catch (err) {
+    await rm(path, { force: true });
+    throw err;
+  }
+}
+
+export async function isFolder(path: string): Promise<boolean> {
+  return (await stat(path)).isDirectory();
+}
+
+// Analyze an archive, or the files of a folder as they would be packed
+export async function analyzePath(
+  path: string,
+  options: Partial<ProcessingOptions> = {},
+  control: TaskControl = {}
+): Promise<DiagnosticReport> {
+  if (await isFolder(path)) return analyzeFiles(await readFolderFiles(path), options, control);
+  return analyzeArchive(await openFile(path), options, control);
+}
+
+export async function fixArchiveFile(
+  path: string,
+  outputPath: string,
+  options: Partial<ProcessingOptions> = {},
+  control: TaskControl = {}
+): Promise<DiagnosticReport> {
+  const file = await openFile(path);
+  return writeFile(outputPath, sink => fixArchiveToStream(file, sink, options, control));
+}
+
+export async function packFolder(
+  path: string,
+  outputPath: string,
+  options: Partial<ProcessingOptions> = {},
+  control: TaskControl = {}
+): Promise<DiagnosticReport> {
+  const files = await readFolderFiles(path);
+  return writeFile(outputPath, sink => packFilesToStream(files, sink, options, control));
+}
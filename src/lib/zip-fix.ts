@@ -0,0 +1,134 @@
+// Runtime-neutral entry points for scripts, servers and the CLI. Archives come in as bytes, a stream or a Blob
+// instead of the File a page gets from an input, and the fixed ZIP goes back as bytes or into a stream.
+// Nothing here needs the DOM or Node: zip-fix-node.ts adds file system paths on top.
+import {
+  analyzeFolder,
+  analyzeZip,
+  createZipFromFiles,
+  createZipFromFilesToStream,
+  processZip,
+  processZipToStream,
+  DiagnosticReport,
+  FolderFile,
+  ProcessingOptions,
+  TaskControl,
+} from './zip-processor';
+
+export type {
+  ArchiveFormat,
+  ArchiveScan,
+  DiagnosticIssue,
+  DiagnosticReport,
+  IssueAction,
+  IssueCode,
+  IssueType,
+  LimitViolation,
+  ProcessingOptions,
+  ProcessingProgress,
+  ResourceLimits,
+  TaskControl,
+} from './zip-processor';
+export {
+  ARCHIVE_EXTENSIONS,
+  DEFAULT_LIMITS,
+  DEFAULT_OPTIONS,
+  NameCollisionError,
+  ResourceLimitError,
+  isSupportedArchive,
+} from './zip-processor';
+export { PasswordError } from './zip-crypto';
+export { buildExportedReport, exportReportCsv, exportReportHtml, exportReportJson } from './report-export';
+export type { ExportedReport, ReportContext } from './report-export';
+
+// A Blob keeps its name when it is a File; other inputs are named archive.zip in the embedded report
+export type ArchiveInput = Uint8Array | ArrayBuffer | Blob | ReadableStream<Uint8Array>;
+
+// A file to pack, with its path relative to the packed folder (starting with the folder's own name)
+export interface PackInput {
+  path: string;
+  data: ArchiveInput;
+  lastModified?: number; // Milliseconds since the epoch, now when missing
+  mode?: number; // Unix permission bits, stored with the entry when given
+}
+
+const DEFAULT_ARCHIVE_NAME = 'archive.zip';
+
+async function toBlob(input: ArchiveInput): Promise<Blob> {
+  if (input instanceof Blob) return input;
+  if (input instanceof ReadableStream) return new Response(input).blob();
+  return new Blob([input as Uint8Array<ArrayBuffer> | ArrayBuffer]);
+}
+
+async function toFile(input: ArchiveInput, name: string, lastModified?: number): Promise<File> {
+  if (input instanceof File) return input;
+  return new File([await toBlob(input)], name, { lastModified });
+}
+
+async function toFolderFiles(files: PackInput[]): Promise<FolderFile[]> {
+  const folderFiles: FolderFile[] = [];
+  for (const { path, data, lastModified, mode } of files) {
+    folderFiles.push({ file: await toFile(data, path.split('/').pop()!, lastModified), path, mode });
+  }
+  return folderFiles;
+}
+
+async function toBytes(blob: Blob): Promise<Uint8Array> {
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+// Archives (ZIP, TAR, TAR.GZ)
+
+export async function analyzeArchive(
+  input: ArchiveInput,
+  options: Partial<ProcessingOptions> = {},
+  control: TaskControl = {}
+): Promise<DiagnosticReport> {
+  return analyzeZip(await toFile(input, DEFAULT_ARCHIVE_NAME), options, control);
+}
+
+export async function fixArchive(
+  input: ArchiveInput,
+  options: Partial<ProcessingOptions> = {},
+  control: TaskControl = {}
+): Promise<{ data: Uint8Array; report: DiagnosticReport }> {
+  const { blob, report } = await processZip(await toFile(input, DEFAULT_ARCHIVE_NAME), options, control);
+  return { data: await toBytes(blob), report };
+}
+
+// Stream the fixed ZIP into a sink so large archives never sit in memory as a whole
+export async function fixArchiveToStream(
+  input: ArchiveInput,
+  sink: WritableStream<Uint8Array>,
+  options: Partial<ProcessingOptions> = {},
+  control: TaskControl = {}
+): Promise<DiagnosticReport> {
+  return processZipToStream(await toFile(input, DEFAULT_ARCHIVE_NAME), sink, options, control);
+}
+
+// Loose files, checked and packed into a new ZIP
+
+export async function analyzeFiles(
+  files: PackInput[],
+  options: Partial<ProcessingOptions> = {},
+  control: TaskControl = {}
+): Promise<DiagnosticReport> {
+  return analyzeFolder(await toFolderFiles(files), options, control);
+}
+
+export async function packFiles(
+  files: PackInput[],
+  options: Partial<ProcessingOptions> = {},
+  control: TaskControl = {}
+): Promise<{ data: Uint8Array; report: DiagnosticReport }> {
+  const { blob, report } = await createZipFromFiles(await toFolderFiles(files), options, control);
+  return { data: await toBytes(blob), report };
+}
+
+export async function packFilesToStream(
+  files: PackInput[],
+  sink: WritableStream<Uint8Array>,
+  options: Partial<ProcessingOptions> = {},
+  control: TaskControl = {}
+): Promise<DiagnosticReport> {
+  return createZipFromFilesToStream(await toFolderFiles(files), sink, options, control);
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createBlobSink,
+  createZipWriter,
+  readEntryData,
+  readZipDirectory,
+  FLAG_DATA_DESCRIPTOR,
+  HOST_DOS,
+  METHOD_STORE,
+  ZipEntryData,
+  ZipEntryHeader,
+  ZipWriter,
+} from './zip-format';
+
+function header(name: string): ZipEntryHeader {
+  return {
+    name: new TextEncoder().encode(name),
+    utf8Flag: true,
+    extraField: new Uint8Array(0),
+    comment: new Uint8Array(0),
+    date: new Date(2024, 0, 1),
+    host: HOST_DOS,
+    externalAttributes: 0,
+    encrypted: false,
+  };
+}
+
+async function writeZip(write: (output: ZipWriter) => Promise<void>): Promise<Blob> {
+  const { sink, getBlob } = createBlobSink();
+  const output = createZipWriter(sink);
+  await write(output);
+  await output.close();
+  return getBlob();
+}
+
+const EMPTY: ZipEntryData = { compressionMethod: METHOD_STORE, crc32: 0, compressedSize: 0, uncompressedSize: 0 };
+
+function streamOf(data: Uint8Array): ReadableStream<Uint8Array> {
+  return new Blob([data as Uint8Array<ArrayBuffer>]).stream();
+}
+
+describe('ZIP64 writer', () => {
+  it('writes more entries than the end of central directory can count', async () => {
+    const count = 0x10000;
+    const blob = await writeZip(async output => {
+      for (let i = 0; i < count; i++) await output.addEntry(header(`${i}.txt`), EMPTY, new Uint8Array(0));
+    });
+
+    const { entries } = await readZipDirectory(blob);
+    expect(entries).toHaveLength(count);
+    expect(new TextDecoder().decode(entries[count - 1].rawName)).toBe(`${count - 1}.txt`);
+  });
+
+  it('streams an entry announced as large with ZIP64 sizes and reads its data back', async () => {
+    const content = new TextEncoder().encode('streamed '.repeat(1000));
+    const blob = await writeZip(output => output.addStream(header('large.bin'), streamOf(content), 0xf0000000));
+
+    const { entries } = await readZipDirectory(blob);
+    expect(entries).toHaveLength(1);
+    expect(entries[0].flags & FLAG_DATA_DESCRIPTOR).toBe(FLAG_DATA_DESCRIPTOR);
+    expect(entries[0].uncompressedSize).toBe(content.length);
+    expect(await readEntryData(blob, entries[0])).toEqual(content);
+
+    // The local header defers its sizes to ZIP64, and the data descriptor after the data has 64-bit sizes
+    const local = new DataView(await blob.slice(0, 30).arrayBuffer());
+    expect(local.getUint32(18, true)).toBe(0xffffffff);
+    const dataEnd = 30 + local.getUint16(26, true) + local.getUint16(28, true) + entries[0].compressedSize;
+    const descriptor = new DataView(await blob.slice(dataEnd, dataEnd + 24).arrayBuffer());
+    expect(descriptor.getUint32(0, true)).toBe(0x08074b50);
+    expect(descriptor.getUint32(8, true)).toBe(entries[0].compressedSize);
+    expect(descriptor.getUint32(16, true)).toBe(content.length);
+  });
+
+  it('records sizes over 4 GB in the ZIP64 extra field', async () => {
+    const size = 5 * 1024 * 1024 * 1024;
+    const info = { ...EMPTY, compressedSize: size, uncompressedSize: size };
+    const blob = await writeZip(output => output.addEntry(header('huge.bin'), info, new Uint8Array(0)));
+
+    const { entries } = await readZipDirectory(blob);
+    expect(entries[0].compressedSize).toBe(size);
+    expect(entries[0].uncompressedSize).toBe(size);
+    expect(entries[0].localHeaderOffset).toBe(0);
+  });
+});
@@ -0,0 +1,683 @@
+// Low-level ZIP structure reading and writing.
+// JSZip decodes every filename as UTF-8 before we ever see it, which destroys the
+// original bytes of legacy-encoded names. We read the central directory ourselves
+// so the fixer can work on the bytes that are actually stored in the archive.
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+
+const EOCD_SIZE = 22;
+const ZIP64_EOCD_SIZE = 56;
+const ZIP64_LOCATOR_SIZE = 20;
+const MAX_COMMENT_SIZE = 0xffff;
+
+// 16- and 32-bit header fields set to all ones defer to the ZIP64 records
+const MAX_UINT16 = 0xffff;
+const MAX_UINT32 = 0xffffffff;
+
+// General purpose bit flags
+export const FLAG_ENCRYPTED = 0x0001;
+export const FLAG_DATA_DESCRIPTOR = 0x0008;
+export const FLAG_UTF8 = 0x0800;
+
+export const METHOD_STORE = 0;
+export const METHOD_DEFLATE = 8;
+// WinZip AES: the real method is in the 0x9901 extra field
+export const METHOD_AES = 99;
+
+export const EXTRA_ZIP64 = 0x0001;
+// Info-ZIP extra fields carrying the UTF-8 form of a legacy-encoded name or comment
+export const EXTRA_UNICODE_PATH = 0x7075;
+export const EXTRA_UNICODE_COMMENT = 0x6375;
+// Extended timestamp: Unix modification time in seconds, not limited to the 2-second DOS resolution
+export const EXTRA_EXTENDED_TIMESTAMP = 0x5455;
+// WinZip AES: vendor version (AE-1 keeps the CRC, AE-2 zeroes it), key strength and the real compression method
+export const EXTRA_AES = 0x9901;
+
+// Host system in the high byte of "version made by". Only Unix hosts keep a file mode in
+// the high 16 bits of the external attributes (permissions, symlinks).
+export const HOST_DOS = 0;
+export const HOST_UNIX = 3;
+
+export type EncryptionMethod = 'zipcrypto' | 'aes';
+
+export interface AesInfo {
+  version: number; // 1 = AE-1, 2 = AE-2
+  strength: number; // 1 = 128, 2 = 192, 3 = 256 bits
+  method: number; // Compression method of the data before encryption
+}
+
+export interface ZipEntryRecord {
+  rawName: Uint8Array;
+  utf8Flag: boolean;
+  flags: number;
+  versionMadeBy: number;
+  externalAttributes: number;
+  lastModified: Date; // DOS date/time, local time
+  unixModified: Date | null; // From the 0x5455 extra field, if present
+  compressionMethod: number;
+  crc32: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+  isDirectory: boolean;
+  rawComment: Uint8Array;
+  unicodePath: string | null; // From the 0x7075 extra field, only if its CRC matches rawName
+  unicodeComment: string | null; // From the 0x6375 extra field, only if its CRC matches rawComment
+  encryption: EncryptionMethod | null;
+  aes: AesInfo | null; // From the 0x9901 extra field of AES-encrypted entries
+  dataOffset: number | null; // Where the data starts when there is no local header to read it from (TAR members)
+}
+
+async function readBytes(file: Blob, start: number, end: number): Promise<Uint8Array> {
+  return new Uint8Array(await file.slice(start, end).arrayBuffer());
+}
+
+function view(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+// 64-bit fields as plain numbers: exact up to 2^53 bytes, far beyond any real archive
+function getUint64(dv: DataView, pos: number): number {
+  return dv.getUint32(pos + 4, true) * 0x100000000 + dv.getUint32(pos, true);
+}
+
+function setUint64(dv: DataView, pos: number, value: number) {
+  dv.setUint32(pos, value >>> 0, true);
+  dv.setUint32(pos + 4, Math.floor(value / 0x100000000), true);
+}
+
+// Locate the end of central directory record by scanning backwards over the comment
+function findEndOfCentralDirectory(tail: Uint8Array): number {
+  const dv = view(tail);
+  for (let i = tail.length - EOCD_SIZE; i >= 0; i--) {
+    if (dv.getUint32(i, true) === EOCD_SIGNATURE) return i;
+  }
+  return -1;
+}
+
+// Split an extra field block into its records by header ID
+export function parseExtraFields(extra: Uint8Array): Map<number, Uint8Array> {
+  const fields = new Map<number, Uint8Array>();
+  const dv = view(extra);
+  let pos = 0;
+  while (pos + 4 <= extra.length) {
+    const id = dv.getUint16(pos, true);
+    const size = dv.getUint16(pos + 2, true);
+    if (pos + 4 + size > extra.length) break;
+    if (!fields.has(id)) fields.set(id, extra.subarray(pos + 4, pos + 4 + size));
+    pos += 4 + size;
+  }
+  return fields;
+}
+
+// Read an Info-ZIP Unicode Path/Comment payload. It is only valid while the CRC32 still
+// matches the header bytes: a tool that renamed the entry without updating it leaves a stale value.
+function readUnicodeExtraField(payload: Uint8Array | undefined, headerBytes: Uint8Array): string | null {
+  if (!payload || payload.length < 5 || payload[0] !== 1) return null;
+  if (view(payload).getUint32(1, true) !== crc32(headerBytes)) return null;
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(payload.subarray(5));
+  } catch {
+    return null;
+  }
+}
+
+function fromDosDateTime(time: number, date: number): Date {
+  return new Date(
+    (date >> 9) + 1980,
+    ((date >> 5) & 0x0f) - 1,
+    date & 0x1f,
+    time >> 11,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2
+  );
+}
+
+function readAesExtraField(payload: Uint8Array | undefined): AesInfo | null {
+  if (!payload || payload.length < 7 || payload[2] !== 0x41 || payload[3] !== 0x45) return null;
+  const dv = view(payload);
+  return { version: dv.getUint16(0, true), strength: payload[4], method: dv.getUint16(5, true) };
+}
+
+// The central directory copy of 0x5455 only carries the modification time
+function readExtendedTimestamp(payload: Uint8Array | undefined): Date | null {
+  if (!payload || payload.length < 5 || (payload[0] & 1) === 0) return null;
+  return new Date(view(payload).getInt32(1, true) * 1000);
+}
+
+export interface ZipDirectory {
+  entries: ZipEntryRecord[];
+  comment: Uint8Array; // Archive comment from the end of central directory record
+}
+
+// Read all entries from the central directory, keeping names as raw bytes
+export async function readZipDirectory(file: Blob): Promise<ZipDirectory> {
+  const tailStart = Math.max(0, file.size - EOCD_SIZE - MAX_COMMENT_SIZE);
+  const tail = await readBytes(file, tailStart, file.size);
+  const eocdOffset = findEndOfCentralDirectory(tail);
+  if (eocdOffset < 0) {
+    throw new Error('End of central directory not found: not a ZIP file');
+  }
+
+  const eocd = view(tail.subarray(eocdOffset));
+  let entryCount = eocd.getUint16(10, true);
+  let directorySize = eocd.getUint32(12, true);
+  let directoryOffset = eocd.getUint32(16, true);
+  const commentLength = eocd.getUint16(20, true);
+  const comment = tail.slice(eocdOffset + EOCD_SIZE, eocdOffset + EOCD_SIZE + commentLength);
+
+  // Archives over 4 GB or 65,535 entries keep the real values in the ZIP64 end of central directory
+  const locatorOffset = eocdOffset - ZIP64_LOCATOR_SIZE;
+  if (locatorOffset >= 0 && view(tail).getUint32(locatorOffset, true) === ZIP64_LOCATOR_SIGNATURE) {
+    const zip64Offset = getUint64(view(tail), locatorOffset + 8);
+    const zip64 = view(await readBytes(file, zip64Offset, zip64Offset + ZIP64_EOCD_SIZE));
+    if (zip64.byteLength < ZIP64_EOCD_SIZE || zip64.getUint32(0, true) !== ZIP64_EOCD_SIGNATURE) {
+      throw new Error('ZIP64 end of central directory not found');
+    }
+    entryCount = getUint64(zip64, 32);
+    directorySize = getUint64(zip64, 40);
+    directoryOffset = getUint64(zip64, 48);
+  } else if (entryCount === MAX_UINT16 && directoryOffset === MAX_UINT32) {
+    throw new Error('ZIP64 end of central directory locator not found');
+  }
+
+  const directory = await readBytes(file, directoryOffset, directoryOffset + directorySize);
+  const dv = view(directory);
+  const entries: ZipEntryRecord[] = [];
+  let pos = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (pos + 46 > directory.length || dv.getUint32(pos, true) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error(`Corrupted central directory at entry ${i}`);
+    }
+
+    const versionMadeBy = dv.getUint16(pos + 4, true);
+    const flags = dv.getUint16(pos + 8, true);
+    const nameLength = dv.getUint16(pos + 28, true);
+    const extraLength = dv.getUint16(pos + 30, true);
+    const commentLength = dv.getUint16(pos + 32, true);
+    const externalAttributes = dv.getUint32(pos + 38, true);
+    const rawName = directory.slice(pos + 46, pos + 46 + nameLength);
+    const extraStart = pos + 46 + nameLength;
+    const extraFields = parseExtraFields(directory.subarray(extraStart, extraStart + extraLength));
+    const rawComment = directory.slice(extraStart + extraLength, extraStart + extraLength + commentLength);
+
+    // Sizes and offset that overflow 32 bits are in the ZIP64 extra field, in this order
+    let compressedSize = dv.getUint32(pos + 20, true);
+    let uncompressedSize = dv.getUint32(pos + 24, true);
+    let localHeaderOffset = dv.getUint32(pos + 42, true);
+    const zip64 = extraFields.get(EXTRA_ZIP64);
+    if (zip64) {
+      const zv = view(zip64);
+      let field = 0;
+      const readField = () => {
+        const value = field + 8 <= zip64.length ? getUint64(zv, field) : MAX_UINT32;
+        field += 8;
+        return value;
+      };
+      if (uncompressedSize === MAX_UINT32) uncompressedSize = readField();
+      if (compressedSize === MAX_UINT32) compressedSize = readField();
+      if (localHeaderOffset === MAX_UINT32) localHeaderOffset = readField();
+    }
+
+    const compressionMethod = dv.getUint16(pos + 10, true);
+    const aes = compressionMethod === METHOD_AES ? readAesExtraField(extraFields.get(EXTRA_AES)) : null;
+
+    entries.push({
+      rawName,
+      utf8Flag: (flags & FLAG_UTF8) !== 0,
+      flags,
+      versionMadeBy,
+      externalAttributes,
+      lastModified: fromDosDateTime(dv.getUint16(pos + 12, true), dv.getUint16(pos + 14, true)),
+      unixModified: readExtendedTimestamp(extraFields.get(EXTRA_EXTENDED_TIMESTAMP)),
+      compressionMethod,
+      crc32: dv.getUint32(pos + 16, true),
+      compressedSize,
+      uncompressedSize,
+      localHeaderOffset,
+      // Trailing slash, or the MS-DOS directory attribute
+      isDirectory: rawName[rawName.length - 1] === 0x2f || (externalAttributes & 0x10) !== 0,
+      rawComment,
+      unicodePath: readUnicodeExtraField(extraFields.get(EXTRA_UNICODE_PATH), rawName),
+      unicodeComment: readUnicodeExtraField(extraFields.get(EXTRA_UNICODE_COMMENT), rawComment),
+      encryption: flags & FLAG_ENCRYPTED ? (aes ? 'aes' : 'zipcrypto') : null,
+      aes,
+      dataOffset: null,
+    });
+
+    pos += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return { entries, comment };
+}
+
+// The DOM typings declare the writable side as BufferSource, which Uint8Array streams cannot be piped into
+function byteTransform(stream: CompressionStream | DecompressionStream): ReadableWritablePair<Uint8Array, Uint8Array> {
+  return stream as unknown as ReadableWritablePair<Uint8Array, Uint8Array>;
+}
+
+// The local header repeats the name and has its own extra field, so data starts at a per-entry offset
+async function findEntryData(file: Blob, entry: ZipEntryRecord): Promise<number> {
+  if (entry.dataOffset !== null) return entry.dataOffset;
+  const header = await readBytes(file, entry.localHeaderOffset, entry.localHeaderOffset + 30);
+  const dv = view(header);
+  if (header.length < 30 || dv.getUint32(0, true) !== LOCAL_FILE_HEADER_SIGNATURE) {
+    throw new Error('Local file header not found');
+  }
+  return entry.localHeaderOffset + 30 + dv.getUint16(26, true) + dv.getUint16(28, true);
+}
+
+// The stored (still compressed) bytes of an entry as a slice of the file, nothing is read yet
+export async function sliceEntryData(file: Blob, entry: ZipEntryRecord): Promise<Blob> {
+  const dataStart = await findEntryData(file, entry);
+  return file.slice(dataStart, dataStart + entry.compressedSize);
+}
+
+// Stream the stored (still compressed) bytes of an entry straight from the file
+export async function openRawEntryStream(file: Blob, entry: ZipEntryRecord): Promise<ReadableStream<Uint8Array>> {
+  return (await sliceEntryData(file, entry)).stream();
+}
+
+// Fail as soon as inflated data runs past the declared size instead of trusting the header
+function limitSize(maxBytes: number): TransformStream<Uint8Array, Uint8Array> {
+  let total = 0;
+  return new TransformStream({
+    transform(chunk, controller) {
+      total += chunk.length;
+      if (total > maxBytes) {
+        throw new Error('Entry data is larger than its declared size');
+      }
+      controller.enqueue(chunk);
+    },
+  });
+}
+
+// Decompress the (decrypted) stored bytes of an entry
+export function decompressStream(
+  raw: ReadableStream<Uint8Array>,
+  method: number,
+  uncompressedSize: number
+): ReadableStream<Uint8Array> {
+  switch (method) {
+    case METHOD_STORE:
+      return raw;
+    case METHOD_DEFLATE:
+      return raw.pipeThrough(byteTransform(new DecompressionStream('deflate-raw'))).pipeThrough(limitSize(uncompressedSize));
+    default:
+      throw new Error(`Unsupported compression method: ${method}`);
+  }
+}
+
+// Stream the decompressed content of an unencrypted entry
+export async function openEntryStream(file: Blob, entry: ZipEntryRecord): Promise<ReadableStream<Uint8Array>> {
+  if (entry.encryption) {
+    throw new Error('Encrypted entries have to be decrypted first');
+  }
+  return decompressStream(await openRawEntryStream(file, entry), entry.compressionMethod, entry.uncompressedSize);
+}
+
+// Read and decompress the content of a single entry
+export async function readEntryData(file: Blob, entry: ZipEntryRecord): Promise<Uint8Array> {
+  return new Uint8Array(await new Response(await openEntryStream(file, entry)).arrayBuffer());
+}
+
+
+// ZIP writing
+
+const DATA_VERSION = 20; // 2.0: deflate, directories, ZipCrypto
+const ZIP64_VERSION = 45; // 4.5: ZIP64 extensions
+const AES_VERSION = 51; // 5.1: WinZip AES
+export const DOS_DIRECTORY_ATTRIBUTE = 0x10;
+
+// Streamed entries this large get ZIP64 sizes up front: their compressed size is only known afterwards
+const ZIP64_STREAM_THRESHOLD = 0xf0000000;
+
+export interface ZipEntryHeader {
+  name: Uint8Array; // Header name bytes, already encoded for the output profile
+  utf8Flag: boolean;
+  extraField: Uint8Array;
+  comment: Uint8Array; // Encoded like the name: UTF-8 when utf8Flag is set
+  date: Date;
+  host: number; // HOST_DOS or HOST_UNIX, tells readers how to interpret externalAttributes
+  externalAttributes: number;
+  encrypted: boolean; // Data is already encrypted (ZipCrypto, or AES with METHOD_AES and its extra field)
+}
+
+// Compression method, checksum and sizes of entry data that is ready to be written as-is
+export interface ZipEntryData {
+  compressionMethod: number;
+  crc32: number;
+  compressedSize: number;
+  uncompressedSize: number;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// One step of the CRC32 register without the pre/post inversion, as the ZipCrypto key schedule uses it
+export function crc32Update(crc: number, byte: number): number {
+  return (CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)) >>> 0;
+}
+
+// CRC32 of data, continuing from a previous CRC when the data arrives in chunks
+export function crc32(data: Uint8Array, previous = 0): number {
+  let crc = previous ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+export function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Compress file content, falling back to STORE when deflate does not make it smaller
+export async function compressContent(content: Uint8Array): Promise<ZipEntryData & { data: Uint8Array }> {
+  const deflated = await deflateRaw(content);
+  const useDeflate = deflated.length < content.length;
+  const data = useDeflate ? deflated : content;
+  return {
+    data,
+    compressionMethod: useDeflate ? METHOD_DEFLATE : METHOD_STORE,
+    crc32: crc32(content),
+    compressedSize: data.length,
+    uncompressedSize: content.length,
+  };
+}
+
+export function buildExtraField(id: number, payload: Uint8Array): Uint8Array {
+  const field = new Uint8Array(4 + payload.length);
+  const dv = view(field);
+  dv.setUint16(0, id, true);
+  dv.setUint16(2, payload.length, true);
+  field.set(payload, 4);
+  return field;
+}
+
+// Info-ZIP Unicode Path (0x7075) or Comment (0x6375): the UTF-8 text, tied to the header bytes by their CRC32
+export function unicodeExtraField(id: number, headerBytes: Uint8Array, utf8Text: Uint8Array): Uint8Array {
+  const payload = new Uint8Array(5 + utf8Text.length);
+  const dv = view(payload);
+  dv.setUint8(0, 1); // Version
+  dv.setUint32(1, crc32(headerBytes), true);
+  payload.set(utf8Text, 5);
+  return buildExtraField(id, payload);
+}
+
+// Extended timestamp (0x5455) with the modification time only, valid in both local and central headers
+export function extendedTimestampExtraField(modified: Date): Uint8Array {
+  const payload = new Uint8Array(5);
+  const dv = view(payload);
+  dv.setUint8(0, 1); // Flags: modification time present
+  dv.setInt32(1, Math.floor(modified.getTime() / 1000), true);
+  return buildExtraField(EXTRA_EXTENDED_TIMESTAMP, payload);
+}
+
+export function aesExtraField(aes: AesInfo): Uint8Array {
+  const payload = new Uint8Array(7);
+  const dv = view(payload);
+  dv.setUint16(0, aes.version, true);
+  payload.set([0x41, 0x45], 2); // Vendor ID "AE"
+  dv.setUint8(4, aes.strength);
+  dv.setUint16(5, aes.method, true);
+  return buildExtraField(EXTRA_AES, payload);
+}
+
+function zip64ExtraField(values: number[]): Uint8Array {
+  const payload = new Uint8Array(8 * values.length);
+  const dv = view(payload);
+  values.forEach((value, i) => setUint64(dv, 8 * i, value));
+  return buildExtraField(EXTRA_ZIP64, payload);
+}
+
+// MS-DOS date/time in local time, as Windows Explorer interprets it
+export function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.min(Math.max(date.getFullYear(), 1980), 2107);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+export interface ZipWriter {
+  // Add an entry whose data is already compressed (or stored) and whose CRC and sizes are known
+  addEntry(header: ZipEntryHeader, info: ZipEntryData, data: ReadableStream<Uint8Array> | Uint8Array): Promise<void>;
+  // Deflate content on the fly; CRC and sizes follow the data in a data descriptor
+  addStream(header: ZipEntryHeader, content: ReadableStream<Uint8Array>, sizeHint: number): Promise<void>;
+  close(comment?: Uint8Array): Promise<void>;
+  abort(reason?: unknown): Promise<void>;
+}
+
+function versionNeeded(info: ZipEntryData, zip64: boolean): number {
+  if (info.compressionMethod === METHOD_AES) return AES_VERSION;
+  return zip64 ? ZIP64_VERSION : DATA_VERSION;
+}
+
+function headerFlags(header: ZipEntryHeader): number {
+  return (header.utf8Flag ? FLAG_UTF8 : 0) | (header.encrypted ? FLAG_ENCRYPTED : 0);
+}
+
+// Write an archive entry by entry into a sink, so neither input nor output has to fit in memory.
+// Only the central directory is kept until the end.
+export function createZipWriter(sink: WritableStream<Uint8Array>): ZipWriter {
+  const writer = sink.getWriter();
+  const centralHeaders: Uint8Array[] = [];
+  let offset = 0;
+
+  const write = async (chunk: Uint8Array) => {
+    await writer.write(chunk);
+    offset += chunk.length;
+  };
+
+  const pipe = async (stream: ReadableStream<Uint8Array>, onChunk?: (chunk: Uint8Array) => void) => {
+    const reader = stream.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      onChunk?.(value);
+      await write(value);
+    }
+  };
+
+  const writeLocalHeader = async (header: ZipEntryHeader, flags: number, info: ZipEntryData, zip64: boolean) => {
+    const { time, date } = toDosDateTime(header.date);
+    const extraField = zip64
+      ? concatBytes([zip64ExtraField([info.uncompressedSize, info.compressedSize]), header.extraField])
+      : header.extraField;
+    const local = new Uint8Array(30 + header.name.length + extraField.length);
+    const lv = view(local);
+    lv.setUint32(0, LOCAL_FILE_HEADER_SIGNATURE, true);
+    lv.setUint16(4, versionNeeded(info, zip64), true);
+    lv.setUint16(6, flags, true);
+    lv.setUint16(8, info.compressionMethod, true);
+    lv.setUint16(10, time, true);
+    lv.setUint16(12, date, true);
+    lv.setUint32(14, info.crc32, true);
+    lv.setUint32(18, zip64 ? MAX_UINT32 : info.compressedSize, true);
+    lv.setUint32(22, zip64 ? MAX_UINT32 : info.uncompressedSize, true);
+    lv.setUint16(26, header.name.length, true);
+    lv.setUint16(28, extraField.length, true);
+    local.set(header.name, 30);
+    local.set(extraField, 30 + header.name.length);
+    await write(local);
+  };
+
+  const addCentralHeader = (header: ZipEntryHeader, flags: number, info: ZipEntryData, localOffset: number) => {
+    const { time, date } = toDosDateTime(header.date);
+    const zip64Values = [info.uncompressedSize, info.compressedSize, localOffset].filter(value => value >= MAX_UINT32);
+    const extraField = zip64Values.length
+      ? concatBytes([zip64ExtraField(zip64Values), header.extraField])
+      : header.extraField;
+    const version = versionNeeded(info, zip64Values.length > 0);
+
+    const central = new Uint8Array(46 + header.name.length + extraField.length + header.comment.length);
+    const cv = view(central);
+    cv.setUint32(0, CENTRAL_DIRECTORY_SIGNATURE, true);
+    cv.setUint16(4, (header.host << 8) | version, true);
+    cv.setUint16(6, version, true);
+    cv.setUint16(8, flags, true);
+    cv.setUint16(10, info.compressionMethod, true);
+    cv.setUint16(12, time, true);
+    cv.setUint16(14, date, true);
+    cv.setUint32(16, info.crc32, true);
+    cv.setUint32(20, Math.min(info.compressedSize, MAX_UINT32), true);
+    cv.setUint32(24, Math.min(info.uncompressedSize, MAX_UINT32), true);
+    cv.setUint16(28, header.name.length, true);
+    cv.setUint16(30, extraField.length, true);
+    cv.setUint16(32, header.comment.length, true);
+    cv.setUint32(38, header.externalAttributes, true);
+    cv.setUint32(42, Math.min(localOffset, MAX_UINT32), true);
+    central.set(header.name, 46);
+    central.set(extraField, 46 + header.name.length);
+    central.set(header.comment, 46 + header.name.length + extraField.length);
+    centralHeaders.push(central);
+  };
+
+  return {
+    async addEntry(header, info, data) {
+      const localOffset = offset;
+      const flags = headerFlags(header);
+      const zip64 = info.compressedSize >= MAX_UINT32 || info.uncompressedSize >= MAX_UINT32;
+      await writeLocalHeader(header, flags, info, zip64);
+      if (data instanceof Uint8Array) {
+        await write(data);
+      } else {
+        await pipe(data);
+      }
+      addCentralHeader(header, flags, info, localOffset);
+    },
+
+    async addStream(header, content, sizeHint) {
+      const localOffset = offset;
+      const flags = headerFlags(header) | FLAG_DATA_DESCRIPTOR;
+      const zip64 = sizeHint >= ZIP64_STREAM_THRESHOLD;
+      const info: ZipEntryData = { compressionMethod: METHOD_DEFLATE, crc32: 0, compressedSize: 0, uncompressedSize: 0 };
+      await writeLocalHeader(header, flags, info, zip64);
+
+      const dataStart = offset;
+      const deflated = content
+        .pipeThrough(
+          new TransformStream<Uint8Array, Uint8Array>({
+            transform(chunk, controller) {
+              info.crc32 = crc32(chunk, info.crc32);
+              info.uncompressedSize += chunk.length;
+              controller.enqueue(chunk);
+            },
+          })
+        )
+        .pipeThrough(byteTransform(new CompressionStream('deflate-raw')));
+      await pipe(deflated);
+      info.compressedSize = offset - dataStart;
+
+      const descriptor = new Uint8Array(zip64 ? 24 : 16);
+      const dv = view(descriptor);
+      dv.setUint32(0, DATA_DESCRIPTOR_SIGNATURE, true);
+      dv.setUint32(4, info.crc32, true);
+      if (zip64) {
+        setUint64(dv, 8, info.compressedSize);
+        setUint64(dv, 16, info.uncompressedSize);
+      } else {
+        dv.setUint32(8, info.compressedSize, true);
+        dv.setUint32(12, info.uncompressedSize, true);
+      }
+      await write(descriptor);
+      addCentralHeader(header, flags, info, localOffset);
+    },
+
+    async close(comment = new Uint8Array(0)) {
+      const directoryOffset = offset;
+      for (const header of centralHeaders) await write(header);
+      const directorySize = offset - directoryOffset;
+      const entryCount = centralHeaders.length;
+
+      if (entryCount >= MAX_UINT16 || directoryOffset >= MAX_UINT32 || directorySize >= MAX_UINT32) {
+        const zip64EocdOffset = offset;
+        const record = new Uint8Array(ZIP64_EOCD_SIZE + ZIP64_LOCATOR_SIZE);
+        const rv = view(record);
+        rv.setUint32(0, ZIP64_EOCD_SIGNATURE, true);
+        setUint64(rv, 4, ZIP64_EOCD_SIZE - 12); // Size of the rest of the record
+        rv.setUint16(12, ZIP64_VERSION, true);
+        rv.setUint16(14, ZIP64_VERSION, true);
+        setUint64(rv, 24, entryCount);
+        setUint64(rv, 32, entryCount);
+        setUint64(rv, 40, directorySize);
+        setUint64(rv, 48, directoryOffset);
+        rv.setUint32(ZIP64_EOCD_SIZE, ZIP64_LOCATOR_SIGNATURE, true);
+        setUint64(rv, ZIP64_EOCD_SIZE + 8, zip64EocdOffset);
+        rv.setUint32(ZIP64_EOCD_SIZE + 16, 1, true); // Total number of disks
+        await write(record);
+      }
+
+      const eocd = new Uint8Array(EOCD_SIZE + Math.min(comment.length, MAX_COMMENT_SIZE));
+      const ev = view(eocd);
+      ev.setUint32(0, EOCD_SIGNATURE, true);
+      ev.setUint16(8, Math.min(entryCount, MAX_UINT16), true);
+      ev.setUint16(10, Math.min(entryCount, MAX_UINT16), true);
+      ev.setUint32(12, Math.min(directorySize, MAX_UINT32), true);
+      ev.setUint32(16, Math.min(directoryOffset, MAX_UINT32), true);
+      ev.setUint16(20, eocd.length - EOCD_SIZE, true);
+      eocd.set(comment.subarray(0, MAX_COMMENT_SIZE), EOCD_SIZE);
+      await write(eocd);
+      await writer.close();
+    },
+
+    async abort(reason) {
+      await writer.abort(reason);
+    },
+  };
+}
+
+// Chunks are folded into Blobs as they pile up, which browsers may keep on disk instead of in memory
+const BLOB_SINK_FOLD_SIZE = 64 * 1024 * 1024;
+
+// Sink collecting the written archive into a Blob, for callers that want a download rather than a stream
+export function createBlobSink(): { sink: WritableStream<Uint8Array>; getBlob: () => Blob } {
+  const parts: Blob[] = [];
+  let pending: Uint8Array[] = [];
+  let pendingSize = 0;
+
+  const fold = () => {
+    parts.push(new Blob(pending as BlobPart[]));
+    pending = [];
+    pendingSize = 0;
+  };
+
+  const sink = new WritableStream<Uint8Array>({
+    write(chunk) {
+      pending.push(chunk);
+      pendingSize += chunk.length;
+      if (pendingSize >= BLOB_SINK_FOLD_SIZE) fold();
+    },
+  });
+
+  return {
+    sink,
+    getBlob: () => {
+      fold();
+      return new Blob(parts, { type: 'application/zip' });
+    },
+  };
+}
@@ -0,0 +1,268 @@
+import { describe, expect, it } from 'vitest';
+import {
+  analyzeFolder,
+  analyzeZip,
+  fixWindowsPath,
+  longWindowsDirectories,
+  planFolder,
+  processZip,
+  resolveNameCollisions,
+  sanitizePath,
+  CollisionPolicy,
+  DiagnosticIssue,
+  FolderFile,
+  NameCollisionError,
+  PlannedEntry,
+  ProcessingOptions,
+  DEFAULT_OPTIONS,
+} from './zip-processor';
+import { compressContent, createBlobSink, createZipWriter, readZipDirectory, HOST_DOS } from './zip-format';
+
+function folder(...paths: string[]): FolderFile[] {
+  return paths.map(path => ({ file: new File(['content'], path.split('/').pop()!), path }));
+}
+
+async function renamedByEncoding(files: FolderFile[]): Promise<Record<string, string | undefined>> {
+  const report = await analyzeFolder(files);
+  return Object.fromEntries(
+    report.issues.filter(issue => issue.type === 'encoding').map(issue => [issue.originalPath, issue.fixedPath])
+  );
+}
+
+describe('folder name encoding', () => {
+  it('leaves a correct Latin-1 name untouched', async () => {
+    expect(await renamedByEncoding(folder('docs/Nº 5.txt'))).toEqual({});
+    expect(await renamedByEncoding(folder('docs/©2020 ½.txt', 'docs/café.txt'))).toEqual({});
+  });
+
+  // 보고서.txt in CP949, shown through cp437 and through Windows-1252
+  it('recovers only the misread names of a mixed folder', async () => {
+    const files = folder('docs/Nº 5.txt', 'docs/café.txt', 'docs/║╕░φ╝¡.txt', 'docs/résumé.doc');
+    expect(await renamedByEncoding(files)).toEqual({ 'docs/║╕░φ╝¡.txt': 'docs/보고서.txt' });
+    expect(await renamedByEncoding(folder('docs/º¸°í¼­.txt', 'docs/Nº 5.txt'))).toEqual({
+      'docs/º¸°í¼­.txt': 'docs/보고서.txt',
+    });
+  });
+
+  it('leaves names unchanged when no encoding reads them as plausible names', async () => {
+    expect(await renamedByEncoding(folder('docs/a┼b.txt', 'docs/¤¤.txt'))).toEqual({});
+  });
+});
+
+describe('sanitizePath', () => {
+  it.each([
+    ['docs/a.txt', 'docs/a.txt', []],
+    ['../../etc/passwd', 'etc/passwd', ['traversal']],
+    ['docs/../../a.txt', 'a.txt', ['traversal']],
+    ['/etc/passwd', 'etc/passwd', ['absolute']],
+    ['C:/Windows/win.ini', 'Windows/win.ini', ['drive_letter', 'absolute']],
+    ['C:\\Windows\\win.ini', 'Windows/win.ini', ['backslash', 'drive_letter', 'absolute']],
+    ['a\u0000.txt', 'a.txt', ['nul_byte']],
+    ['../', '', ['traversal']],
+  ])('%j becomes %j', (path, safe, problems) => {
+    expect(sanitizePath(path)).toEqual({ safe, problems });
+  });
+
+  it('keeps a colon that is not a drive letter for the Windows renaming', () => {
+    expect(sanitizePath('a:b?.txt')).toEqual({ safe: 'a:b?.txt', problems: [] });
+  });
+});
+
+describe('fixWindowsPath', () => {
+  const NONE = new Set<string>();
+
+  it.each([
+    ['fullwidth', 'dir/a:b?.txt', 'dir/a：b？.txt'],
+    ['underscore', 'dir/a:b?.txt', 'dir/a_b_.txt'],
+    ['fullwidth', 'notes. ', 'notes．　'],
+    ['underscore', 'CON.txt', 'CON_.txt'],
+    ['underscore', 'lpt1/readme', 'lpt1_/readme'],
+  ] as const)('renames under %s: %j', (policy, path, fixed) => {
+    expect(fixWindowsPath(path, policy, NONE).fixed).toBe(fixed);
+  });
+
+  it('names its problems and only reports them under off', () => {
+    expect(fixWindowsPath('aux.c<1>', 'off', NONE)).toEqual({ fixed: 'aux.c<1>', problems: ['illegal_chars', 'reserved_name'] });
+    expect(fixWindowsPath('plain/name.txt', 'fullwidth', NONE)).toEqual({ fixed: 'plain/name.txt', problems: [] });
+  });
+
+  it('truncates at the first illegal character with a stable hash', () => {
+    const { fixed } = fixWindowsPath('report?final.pdf', 'truncate', NONE);
+    expect(fixed).toMatch(/^report~[0-9a-f]{6}\.pdf$/);
+    expect(fixWindowsPath('report?final.pdf', 'truncate', NONE).fixed).toBe(fixed);
+  });
+
+  it('shortens a long directory the same way in every path below it', () => {
+    const directory = 'd'.repeat(100);
+    const paths = [`${directory}/`, `${directory}/${'f'.repeat(170)}.txt`, `${directory}/short.txt`];
+    const long = longWindowsDirectories(paths, 'fullwidth');
+    expect([...long]).toEqual([directory]);
+
+    const fixed = paths.map((path, i) => fixWindowsPath(path, 'fullwidth', long, i === 0));
+    const shortened = fixed[0].fixed.slice(0, -1);
+    expect(shortened.length).toBeLessThanOrEqual(32);
+    expect(fixed[1].fixed.startsWith(`${shortened}/`)).toBe(true);
+    expect(fixed[2].fixed).toBe(`${shortened}/short.txt`);
+    expect(fixed[1].problems).toEqual(['path_too_long']);
+    expect(fixed[1].fixed.length).toBeLessThanOrEqual(260);
+  });
+});
+
+describe('resolveNameCollisions', () => {
+  function plan(...items: [string, number][]): PlannedEntry<null>[] {
+    return items.map(([finalPath, day]) => ({
+      source: null,
+      originalPath: `original/${finalPath}`,
+      finalPath,
+      lastModified: new Date(2024, 0, day),
+      isDirectory: finalPath.endsWith('/'),
+      size: 0,
+    }));
+  }
+
+  function resolve(planned: PlannedEntry<null>[], policy: CollisionPolicy) {
+    const issues: DiagnosticIssue[] = [];
+    return { ...resolveNameCollisions(planned, policy, issues), issues };
+  }
+
+  it('suffixes every later name that differs only in case or normalization', () => {
+    const { kept, collisions, issues } = resolve(plan(['a/README.md', 1], ['a/Readme.md', 2], ['a/readme.md', 3], ['a/b.md', 1]), 'suffix');
+    expect(kept.map(item => item.finalPath)).toEqual(['a/README.md', 'a/Readme (1).md', 'a/readme (2).md', 'a/b.md']);
+    expect(collisions).toEqual([
+      {
+        path: 'a/README.md',
+        originalPaths: ['original/a/README.md', 'original/a/Readme.md', 'original/a/readme.md'],
+        resolvedPaths: ['a/README.md', 'a/Readme (1).md', 'a/readme (2).md'],
+      },
+    ]);
+    expect(issues.map(issue => [issue.action, issue.conflictsWith])).toEqual([
+      ['renamed', 'original/a/README.md'],
+      ['renamed', 'original/a/README.md'],
+    ]);
+  });
+
+  it('does not suffix into a name that is already taken', () => {
+    const { kept } = resolve(plan(['x.txt', 1], ['X.txt', 1], ['x (1).txt', 1]), 'suffix');
+    expect(kept.map(item => item.finalPath)).toEqual(['x.txt', 'X (2).txt', 'x (1).txt']);
+  });
+
+  it('keeps only the newest file under keep_newest', () => {
+    const { kept, collisions, issues } = resolve(plan(['Café.txt', 5], ['Cafe\u0301.txt', 9]), 'keep_newest');
+    expect(kept.map(item => item.finalPath)).toEqual(['Cafe\u0301.txt']);
+    expect(collisions[0].resolvedPaths).toEqual([null, 'Cafe\u0301.txt']);
+    expect(issues).toMatchObject([{ action: 'removed', originalPath: 'original/Café.txt', conflictsWith: 'original/Cafe\u0301.txt' }]);
+  });
+
+  it('throws under abort and leaves directories alone', () => {
+    expect(() => resolve(plan(['a.txt', 1], ['A.txt', 1]), 'abort')).toThrow(NameCollisionError);
+    expect(resolve(plan(['dir/', 1], ['DIR/', 1]), 'abort').collisions).toEqual([]);
+  });
+});
+
+describe('planFolder', () => {
+  const files = folder(
+    'pick/__MACOSX/._notes.txt',
+    'pick/.DS_Store',
+    'pick/.hidden',
+    'pick/Cafe\u0301.txt',
+    'pick/a|b.txt',
+    'pick/A|B.txt'
+  );
+
+  function plannedPaths(options: Partial<ProcessingOptions> = {}): string[] {
+    return planFolder(files, { ...DEFAULT_OPTIONS, ...options }).planned.map(item => item.finalPath);
+  }
+
+  it('removes macOS artifacts, normalizes and renames for Windows', () => {
+    const { planned, report } = planFolder(files, DEFAULT_OPTIONS);
+    expect(planned.map(item => item.finalPath)).toEqual(['pick/.hidden', 'pick/Café.txt', 'pick/a｜b.txt', 'pick/A｜B.txt']);
+    expect(planned.map(item => item.source)).toEqual(files.slice(2));
+    expect(report).toMatchObject({
+      totalFiles: 6,
+      macosArtifacts: 1,
+      dsStoreFiles: 1,
+      normalizationIssues: 1,
+      windowsNameIssues: 2,
+      hiddenFiles: 1,
+    });
+  });
+
+  it('honors every option', () => {
+    expect(plannedPaths({ removeMAcOSArtifacts: false, removeDSStore: false })).toContain('pick/__MACOSX/._notes.txt');
+    expect(plannedPaths({ removeDSStore: false })).toContain('pick/.DS_Store');
+    expect(plannedPaths({ removeHiddenFiles: true })).not.toContain('pick/.hidden');
+    expect(plannedPaths({ normalizeUnicode: false })).toContain('pick/Cafe\u0301.txt');
+    expect(plannedPaths({ windowsNames: 'off' })).toContain('pick/a|b.txt');
+  });
+
+  it('leaves names to collide for the collision policy', async () => {
+    const report = await analyzeFolder(files);
+    expect(report.collisions.map(collision => collision.resolvedPaths)).toEqual([['pick/a｜b.txt', 'pick/A｜B (1).txt']]);
+  });
+});
+
+describe('analysis and processing', () => {
+  // 한글.txt in CP949, stored without the UTF-8 flag
+  const CP949_NAME = new Uint8Array([0xc7, 0xd1, 0xb1, 0xdb, 0x2e, 0x74, 0x78, 0x74]);
+  const NAMES: (string | Uint8Array)[] = [
+    'docs/Cafe\u0301.txt',
+    'docs/café.txt',
+    'docs/a:b?.txt',
+    'docs/CON.txt',
+    '__MACOSX/docs/._a.txt',
+    'docs/.DS_Store',
+    'docs/.hidden',
+    '../escape.txt',
+    CP949_NAME,
+  ];
+
+  async function fixture(): Promise<File> {
+    const { sink, getBlob } = createBlobSink();
+    const output = createZipWriter(sink);
+    for (const [index, name] of NAMES.entries()) {
+      const { data, ...info } = await compressContent(new TextEncoder().encode(`entry ${index}`));
+      const header = {
+        name: typeof name === 'string' ? new TextEncoder().encode(name) : name,
+        utf8Flag: typeof name === 'string',
+        extraField: new Uint8Array(0),
+        comment: new Uint8Array(0),
+        date: new Date(2024, 0, 1),
+        host: HOST_DOS,
+        externalAttributes: 0,
+        encrypted: false,
+      };
+      await output.addEntry(header, info, data);
+    }
+    await output.close();
+    return new File([getBlob()], 'fixture.zip');
+  }
+
+  it.each<[string, Partial<ProcessingOptions>]>([
+    ['default options', {}],
+    [
+      'other options',
+      {
+        removeDSStore: false,
+        removeHiddenFiles: true,
+        normalizeUnicode: false,
+        windowsNames: 'truncate',
+        collisions: 'keep_newest',
+        unsafePaths: 'drop',
+      },
+    ],
+    ['no encoding fix', { fixEncoding: false, removeMAcOSArtifacts: false, windowsNames: 'underscore' }],
+  ])('agree on every name and issue with %s', async (_, options) => {
+    const file = await fixture();
+    const analysis = await analyzeZip(file, options);
+    const { blob, report } = await processZip(file, { ...options, embedReport: false });
+
+    const { entries } = await readZipDirectory(blob);
+    const written = entries.map(entry => new TextDecoder().decode(entry.rawName)).sort();
+    const planned = analysis.entries.flatMap(entry => (entry.fixedPath === null ? [] : [entry.fixedPath])).sort();
+    expect(written).toEqual(planned);
+    expect(report.entries).toEqual(analysis.entries);
+
+    // Analysis reports what processing does as detected
+    expect(report.issues.map(issue => ({ ...issue, action: 'detected' }))).toEqual(analysis.issues);
+  });
+});
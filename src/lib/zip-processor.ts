@@ -1,20 +1,227 @@
-import JSZip from 'jszip';
+import {
+  readZipDirectory,
+  openRawEntryStream,
+  openEntryStream,
+  readEntryData,
+  sliceEntryData,
+  decompressStream,
+  compressContent,
+  concatBytes,
+  unicodeExtraField,
+  extendedTimestampExtraField,
+  createZipWriter,
+  createBlobSink,
+  EXTRA_UNICODE_PATH,
+  EXTRA_UNICODE_COMMENT,
+  DOS_DIRECTORY_ATTRIBUTE,
+  HOST_DOS,
+  HOST_UNIX,
+  METHOD_STORE,
+  ZipEntryRecord,
+  ZipEntryHeader,
+  ZipEntryData,
+  ZipWriter,
+} from './zip-format';
+import { decryptEntry, decryptedCrc32, encryptEntry, verifyPassword, EncryptionTarget, PasswordError } from './zip-crypto';
+import { gunzip, isGzip, isTarHeader, readTarDirectory } from './tar-format';
+import { exportReportJson, REPORT_ENTRY_NAME, ReportContext } from './report-export';
+
+export type { ZipEntryRecord } from './zip-format';
+
+// Input formats; all of them are written out as ZIP
+export type ArchiveFormat = 'zip' | 'tar' | 'tar.gz';
+
+// Where the name of an entry came from:
+// - utf8_flag: header name declared as UTF-8 (general purpose bit 11)
+// - unicode_path: Info-ZIP Unicode Path extra field (0x7075) with a matching CRC
+// - utf8: header name without the flag that is valid UTF-8 (or plain ASCII)
+// - code_page: header name decoded with the detected or forced legacy encoding
+export type NameSource = 'utf8_flag' | 'unicode_path' | 'utf8' | 'code_page';
+
+// Why a name cannot be extracted by Windows Explorer
+export type WindowsNameProblem = 'illegal_chars' | 'trailing_dot_space' | 'reserved_name' | 'path_too_long';
+
+// Why a path could be written outside the extraction folder (zip-slip) or be cut short when extracted
+export type UnsafePathProblem = 'traversal' | 'absolute' | 'drive_letter' | 'backslash' | 'nul_byte' | 'symlink_escape';
+
+export type IssueType =
+  | 'encoding'
+  | 'mojibake'
+  | 'normalization'
+  | 'windows_name'
+  | 'unsafe_path'
+  | 'collision'
+  | 'encrypted'
+  | 'macos_artifact'
+  | 'ds_store'
+  | 'hidden_file'
+  | 'excluded'
+  | 'renamed';
+
+// Stable identifier of what was found, for localized messages and exported reports.
+// Finer than IssueType: an encoding issue is either a legacy code page or a Unicode Path field.
+export type IssueCode =
+  | 'macos_artifact'
+  | 'ds_store'
+  | 'hidden_file'
+  | 'encrypted'
+  | 'reencrypted'
+  | 'legacy_encoding'
+  | 'unicode_path_field'
+  | 'double_encoding'
+  | 'decomposed_unicode'
+  | 'unsafe_path'
+  | 'windows_name'
+  | 'name_collision'
+  | 'manual_exclude'
+  | 'manual_rename';
+
+// What happened to the entry: found by the analysis, or what processing did with it
+export type IssueAction = 'detected' | 'removed' | 'renamed' | 'kept';
 
 export interface DiagnosticIssue {
-  type: 'encoding' | 'macos_artifact' | 'ds_store' | 'hidden_file';
+  type: IssueType;
+  code: IssueCode;
+  action: IssueAction;
   originalPath: string;
   fixedPath?: string;
-  description: string;
+  nameSource?: NameSource; // Set on encoding issues
+  layers?: number; // Set on double_encoding issues: how many times the name was encoded
+  windowsProblems?: WindowsNameProblem[]; // Set on windows_name issues
+  unsafeProblems?: UnsafePathProblem[]; // Set on unsafe_path issues
+  conflictsWith?: string; // Set on name_collision issues: original path of the entry that keeps the name
+  encryption?: string; // Set on encrypted and reencrypted issues: ZipCrypto, AES-128, AES-192 or AES-256
+  previousEncryption?: string; // Set on reencrypted issues
+}
+
+// Entries whose final names are equal once case and Unicode form are ignored
+export interface NameCollision {
+  path: string; // Final name of the first entry in the group
+  originalPaths: string[]; // In archive order
+  resolvedPaths?: (string | null)[]; // Parallel to originalPaths after processing, null = dropped
+}
+
+// A file of the archive with the name it gets, for reviewing entries one by one
+export interface ReviewEntry {
+  originalPath: string;
+  fixedPath: string | null; // null when it is left out (removed by the options, dropped as unsafe or a collision)
+  size: number;
+  crc32: number | null; // As stored in the archive, null for folders and where the format has none
+  issueTypes: IssueType[];
 }
 
 export interface DiagnosticReport {
+  format: ArchiveFormat | null; // Format of the input archive, null for folders
   totalFiles: number;
   issues: DiagnosticIssue[];
   macosArtifacts: number;
   dsStoreFiles: number;
   encodingIssues: number;
+  mojibakeIssues: number;
+  normalizationIssues: number;
+  windowsNameIssues: number;
+  unsafePathIssues: number;
   hiddenFiles: number;
-  encodingConfidence: number; // 0-100
+  encryptedFiles: number;
+  detectedEncoding: string | null; // Archive-wide legacy encoding, null if none fits
+  encodingScore: number; // 0-100
+  nameSources: Record<NameSource, number>; // Number of files whose final name came from each source
+  bytesCopied: number; // Compressed bytes carried over verbatim
+  bytesRecompressed: number; // Uncompressed bytes that went through deflate
+  collisions: NameCollision[];
+  scan: ArchiveScan | null; // Pre-flight scan of the central directory, null for folders
+  nested: NestedArchive[]; // Inner ZIPs opened under nestedDepth, each with its own report
+  entries: ReviewEntry[]; // Every file in archive order, directories left out
+}
+
+// An inner ZIP that was analyzed or repacked with the same options, so the reports form a tree
+export interface NestedArchive {
+  path: string; // Final path of the inner archive in the outer one
+  originalPath: string;
+  report: DiagnosticReport | null; // null when it could not be processed and was kept as is
+  error?: string;
+}
+
+// A resource limit an archive goes over
+export interface LimitViolation {
+  limit: 'entries' | 'total_size' | 'ratio' | 'nesting_depth';
+  value: number;
+  max: number;
+  path?: string; // Entry with the highest ratio, for ratio violations
+}
+
+// What the central directory says about the archive, gathered before anything is inflated
+export interface ArchiveScan {
+  entryCount: number;
+  totalSize: number; // Declared uncompressed size of all entries
+  compressedSize: number;
+  maxRatio: number; // Highest uncompressed/compressed ratio of an entry of at least 1 MB
+  maxRatioPath: string | null;
+  nestingDepth: number; // 1 = no archives inside
+  violations: LimitViolation[];
+}
+
+export interface ResourceLimits {
+  maxEntries: number;
+  maxTotalSize: number; // Bytes, uncompressed
+  maxRatio: number;
+  maxNestingDepth: number;
+}
+
+// What happens when the scan finds a limit exceeded: warn only reports it, refuse fails with a ResourceLimitError
+export type LimitAction = 'warn' | 'refuse';
+
+// How entry names are stored in the output archive:
+// - utf8: UTF-8 names with the language encoding flag (bit 11)
+// - legacy: native code page names without the flag, for unzippers that ignore it
+// - compat: native code page names plus the Info-ZIP Unicode Path extra field (0x7075)
+export type OutputProfile = 'utf8' | 'legacy' | 'compat';
+
+// What happens to dates, permissions and extended timestamps of the entries:
+// - preserve: carried over unchanged, including symlinks and Unix modes
+// - normalize: fixed date and canonical 0644/0755 modes, for reproducible archives
+// - reset: the processing time and plain DOS attributes, as if the files were zipped fresh
+export type MetadataPolicy = 'preserve' | 'normalize' | 'reset';
+
+// What happens to the data of the entries that are kept:
+// - copy: compressed bytes, CRC and method are carried over, only the headers are rewritten
+// - recompress: every entry is inflated and deflated again (stored if that does not shrink it)
+// Encrypted entries keep their compressed data under both modes, it is only decrypted and encrypted again.
+export type DataMode = 'copy' | 'recompress';
+
+// How names Windows cannot extract (reserved characters and device names, trailing dots, paths over 260) are renamed:
+// - fullwidth: reserved characters become their full-width lookalikes (：？＂｜), so the name still reads the same
+// - underscore: reserved characters become _
+// - truncate: the name is cut before the first offending character and gets a short hash suffix
+// - off: names are kept and only reported
+// Paths that are too long get their longest parts shortened with a hash suffix under every policy but off.
+export type WindowsNamePolicy = 'fullwidth' | 'underscore' | 'truncate' | 'off';
+
+// How entries whose final names collide on case-insensitive file systems (NTFS, APFS defaults) are resolved:
+// - suffix: every entry after the first gets " (1)", " (2)", ... before its extension
+// - keep_newest: only the most recently modified entry is kept (the later one on ties), the others are dropped
+// - abort: nothing is written and processing fails with a NameCollisionError
+export type CollisionPolicy = 'suffix' | 'keep_newest' | 'abort';
+
+// What happens to entries with unsafe paths (.., absolute, drive letter, backslash separators, NUL bytes):
+// - sanitize: rewritten to the equivalent relative path inside the archive root
+// - drop: left out of the output
+// Symlinks pointing outside the archive root are dropped under both policies.
+export type UnsafePathPolicy = 'sanitize' | 'drop';
+
+// How encrypted entries are encrypted again in the output, always with the password that opened them:
+// - same: the method of each entry is kept (ZipCrypto, or AES with its key strength)
+// - zipcrypto: traditional PKWARE encryption, opened by every unzipper but easy to break
+// - aes256: WinZip AES-256, needs 7-Zip, WinZip or a recent OS unzipper
+// Unencrypted entries stay unencrypted.
+export type OutputEncryption = 'same' | 'zipcrypto' | 'aes256';
+
+// A decision made by hand for one entry, keyed by its original path in overrides. It wins over the automatic one:
+// include keeps an entry the options would remove (or removes one they would keep), rename replaces the fixed
+// name and is not renamed for Windows again. Unsafe paths are still sanitized, and escaping symlinks dropped.
+export interface EntryOverride {
+  include?: boolean;
+  rename?: string;
 }
 
 export interface ProcessingOptions {
@@ -22,31 +229,77 @@ export interface ProcessingOptions {
   removeDSStore: boolean;
   removeHiddenFiles: boolean;
   fixEncoding: boolean;
+  normalizeUnicode: boolean;
+  forcedEncoding: string | null; // Overrides auto-detection for names without the UTF-8 flag
+  languageHint: string | null; // UI language, used as a prior when detecting the encoding
+  outputProfile: OutputProfile;
+  outputEncoding: string | null; // Code page for legacy/compat names, null = native to languageHint
+  metadata: MetadataPolicy;
+  dataMode: DataMode;
+  windowsNames: WindowsNamePolicy;
+  collisions: CollisionPolicy;
+  unsafePaths: UnsafePathPolicy;
+  limits: ResourceLimits;
+  limitAction: LimitAction;
+  password: string | null; // Opens encrypted entries, required to process archives that have any
+  outputEncryption: OutputEncryption;
+  nestedDepth: number; // Levels of inner ZIPs that are opened and fixed as well, 0 = copied as they are
+  overrides: Record<string, EntryOverride>; // By original path, applies to the top-level archive only
+  embedReport: boolean; // Add the JSON report as _fix-report.json to the output
 }
 
-const DEFAULT_OPTIONS: ProcessingOptions = {
+export interface ProcessingProgress {
+  entriesDone: number;
+  entriesTotal: number;
+  bytesDone: number; // Uncompressed bytes of the entries handled so far
+  bytesTotal: number;
+}
+
+// Cancellation and progress hooks, kept apart from the options so those stay serializable
+export interface TaskControl {
+  signal?: AbortSignal;
+  onProgress?: (progress: ProcessingProgress) => void;
+}
+
+// A file picked from a folder together with its path relative to the picked folder
+export interface FolderFile {
+  file: File;
+  path: string;
+  mode?: number; // Unix permission bits, when the file comes from a disk that has them
+}
+
+// Generous enough for real archives; deflate tops out around 1032:1, bombs sit near that or nest
+export const DEFAULT_LIMITS: ResourceLimits = {
+  maxEntries: 500_000,
+  maxTotalSize: 32 * 1024 * 1024 * 1024,
+  maxRatio: 500,
+  maxNestingDepth: 3,
+};
+
+export const DEFAULT_OPTIONS: ProcessingOptions = {
   removeMAcOSArtifacts: true,
   removeDSStore: true,
   removeHiddenFiles: false,
   fixEncoding: true,
+  normalizeUnicode: true,
+  forcedEncoding: null,
+  languageHint: null,
+  outputProfile: 'utf8',
+  outputEncoding: null,
+  metadata: 'preserve',
+  dataMode: 'copy',
+  windowsNames: 'fullwidth',
+  collisions: 'suffix',
+  unsafePaths: 'sanitize',
+  limits: DEFAULT_LIMITS,
+  limitAction: 'refuse',
+  password: null,
+  outputEncryption: 'same',
+  nestedDepth: 0,
+  overrides: {},
+  embedReport: false,
 };
 
-// EUC-KR (CP949) decoding table for common Korean characters
-// This is a simplified approach - we detect if bytes look like EUC-KR
-function isLikelyEUCKR(bytes: Uint8Array): boolean {
-  let eucKrPairs = 0;
-  for (let i = 0; i < bytes.length - 1; i++) {
-    const b1 = bytes[i];
-    const b2 = bytes[i + 1];
-    // EUC-KR uses bytes in range 0x81-0xFE for first byte, 0x41-0xFE for second
-    if (b1 >= 0x81 && b1 <= 0xFE && b2 >= 0x41 && b2 <= 0xFE) {
-      eucKrPairs++;
-      i++; // Skip the second byte
-    }
-  }
-  return eucKrPairs > 0;
-}
-
 // Check if a string contains replacement characters or looks corrupted
 function hasEncodingIssues(str: string): boolean {
   // Check for replacement character
@@ -66,87 +319,626 @@ function hasEncodingIssues(str: string): boolean {
   return false;
 }
 
-function isByteString(str: string): boolean {
-  for (let i = 0; i < str.length; i++) {
-    if (str.charCodeAt(i) > 0xff) return false;
+// Decode bytes as UTF-8, replacing invalid sequences (what a naive unzipper shows)
+function decodeUTF8Lenient(bytes: Uint8Array): string {
+  return new TextDecoder('utf-8').decode(bytes);
+}
+
+// Upper halves of single-byte code pages we decode ourselves instead of through TextDecoder
+const SINGLE_BYTE_TABLES: Record<string, string> = {
+  // Original IBM PC, the ZIP specification's default for names without the UTF-8 flag
+  cp437:
+    'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜ¢£¥₧ƒáíóúñÑªº¿⌐¬½¼¡«»░▒▓│┤╡╢╖╕╣║╗╝╜╛┐└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀αßΓπΣσµτΦΘΩδ∞φε∩≡±≥≤⌠⌡÷≈°∙·√ⁿ²■\u00A0',
+  // Western European DOS, used by Windows Explorer on French, German and Portuguese systems
+  cp850:
+    'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜø£Ø×ƒáíóúñÑªº¿®¬½¼¡«»░▒▓│┤ÁÂÀ©╣║╗╝¢¥┐└┴┬├─┼ãÃ╚╔╩╦╠═╬¤ðÐÊËÈıÍÎÏ┘┌█▄¦Ì▀ÓßÔÒõÕµþÞÚÛÙýÝ¯´\u00AD±‗¾¶§÷¸°¨·¹³²■\u00A0',
+  // Windows Western, spelled out because some runtimes (Node.js) drop its 0x80-0x9F range
+  'windows-1252':
+    '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008DŽ\u008F\u0090‘’“”•–—˜™š›œ\u009DžŸ\u00A0¡¢£¤¥¦§¨©ª«¬\u00AD®¯°±²³´µ¶·¸¹º»¼½¾¿ÀÁÂÃÄÅÆÇÈÉÊËÌÍÎÏÐÑÒÓÔÕÖ×ØÙÚÛÜÝÞßàáâãäåæçèéêëìíîïðñòóôõö÷øùúûüýþÿ',
+};
+
+function decodeSingleByte(highTable: string, bytes: Uint8Array): string {
+  let result = '';
+  for (const byte of bytes) {
+    result += byte < 0x80 ? String.fromCharCode(byte) : highTable[byte - 0x80];
   }
-  return true;
+  return result;
 }
 
-// Decode bytes that might be EUC-KR encoded
-function tryDecodeEUCKR(bytes: Uint8Array): string | null {
+// Decode bytes with the given encoding, or null if they are not valid in it
+function tryDecode(encoding: string, bytes: Uint8Array): string | null {
+  const highTable = SINGLE_BYTE_TABLES[encoding];
+  if (highTable) return decodeSingleByte(highTable, bytes);
   try {
-    const decoder = new TextDecoder('euc-kr', { fatal: true });
+    const decoder = new TextDecoder(encoding, { fatal: true });
     return decoder.decode(bytes);
   } catch {
     return null;
   }
 }
 
-// Decode bytes that might be Shift-JIS encoded (for Japanese)
-function tryDecodeShiftJIS(bytes: Uint8Array): string | null {
-  try {
-    const decoder = new TextDecoder('shift-jis', { fatal: true });
-    return decoder.decode(bytes);
-  } catch {
-    return null;
+function charRange(from: number, to: number): string {
+  let result = '';
+  for (let code = from; code <= to; code++) result += String.fromCharCode(code);
+  return result;
+}
+
+// Most frequent characters in Korean, Chinese and Japanese filenames and text.
+// Legacy CJK encodings share the same byte layout, so a CP949 name decodes as
+// valid GBK (and vice versa); only the character distribution tells them apart.
+const KOREAN_FREQUENT =
+  '이다의는에을가한고하지기서로를사자리대도어일수보시나아인정제부내상위문전스주드해요게면그만여것들성장적구화원과소있거더신국동관연비오경계업회모발우유영무중트공실학방개터선물세라미안노교용결행명당러마진까저데레체반후료조분최처생식합재통심력설파표치습니다같각집단토확예간달목출말금호' +
+  '파일문서사진보고종수본폴더료의록획년월첨부양식결과출신청견적발표강영상음악새복사';
+const CHINESE_FREQUENT =
+  '的一是不了人我在有他这中大来上国个到说们为子和你地出道也时年得就那要下以生会自着去之过家学对可她里后小么心多天而能好都然没日于起还发成事只作当想看文无开手十用主行方又如前所本见经头面公同三已老从动两长知民样现分将外但身些与高意进把法此实回二理美点月明其种声全工己话儿者向情部正名定女问力机给等几很业最间新什打便位因重被走电四第门相次东政海口使教西再平真听世气信北少关并内加化由却代军产入先山五太水万市眼体别处总才场师书比住员九笑性通目华报立马命张活难神数件安表原车白应路期叫死常提感金何更反合放做系计或司利受光王果亲界及今京务制解各任至清物台象记边共风战干接它许八特觉望直服毛林题建南度统色字请交爱让认算论百吃义科怎元社术结六功指思非流每青管夫连远资队跟带花快条院变联言权往展该领传近留红治决周保达办运武半候七必城父强步完革深区即求品士转量空甚众技轻程告江语英基派满式李息写识极令黄德收脸钱党倒未持取设始版双历越史商千片容研像找友孩站广改议形委早房音火际则首单据导影失拿网香似斯专石若兵弟谁校读志飞观争究包组造落视济喜离虽坏兴' +
+  '件资料终修图照频乐夹档录划案项目数格';
+const TRADITIONAL_CHINESE_FREQUENT =
+  '的一是不了人我在有他這中大來上國個到說們為子和你地出道也時年得就那要下以生會自著去之過家學對可她裡後小麼心多天而能好都然沒日於起還發成事只作當想看文無開手十用主行方又如前所本見經頭面公同三已老從動兩長知民樣現分將外但身些與高意進把法此實回二理美點月明其種聲全工己話兒者向情部正名定女問力機給等幾很業最間新什打便位因重被走電四第門相次東政海口使教西再平真聽世氣信北少關並內加化由卻代軍產入先山五太水萬市眼體別處總才場師書比住員九笑性通目華報立馬命張活難神數件安表原車白應路期叫死常提感金何更反合放做系計或司利受光王果親界及今京務制解各任至清物台象記邊共風戰接它許八特覺望直服林題建南度統色字請交愛讓認算論百吃義科怎元社術結六功指思非流每青管夫連遠資隊跟帶花快條院變聯言權往展該領傳近留紅治決周保達辦運武半候七必城父強步完革深區即求品士轉量空甚眾技輕程告江語英基派滿式李息寫識極令黃德收臉錢黨倒未持取設始版雙歷越史商千片容研像找友孩站廣改議形委早房音火際則首單據導影失拿網香似斯專石若兵弟誰校讀志飛觀爭究包組造落視濟喜離雖壞興' +
+  '檔案資料夾圖照頻樂錄劃項目據格終修';
+const JAPANESE_FREQUENT =
+  charRange(0x3041, 0x3096) + charRange(0x30a1, 0x30fa) + 'ー' +
+  '日一国人年大十二本中長出三時行見月後前生五間上東四今金九入学高円子外八六下来気小七山話女北午百書先名川千水半男西電校語土木聞食車何南万毎白天母火右読友左休父雨写真資料報告最終版修正画像動音楽新規作成会議事録計設企提案仕様覧表';
+const WESTERN_FREQUENT = 'éèàçêâôûîëïüöäßñáíóúãõÉÇÀÖÜÄ';
+const CYRILLIC_FREQUENT = 'оеаинтсрвлкмдпуяОЕАИНТСРВЛКМДПУЯ';
+
+// Scripts shared by all CJK filenames: ideographic punctuation and full-width forms
+const CJK_COMMON = '\\u3000-\\u303F\\uFF01-\\uFF5E';
+const KOREAN_SCRIPTS = new RegExp(`[\\uAC00-\\uD7A3\\u3131-\\u318E${CJK_COMMON}]`);
+const JAPANESE_SCRIPTS = new RegExp(`[\\u3040-\\u30FF\\u4E00-\\u9FFF\\uFF61-\\uFF9F${CJK_COMMON}]`);
+const CHINESE_SCRIPTS = new RegExp(`[\\u4E00-\\u9FFF\\u3400-\\u4DBF${CJK_COMMON}]`);
+const WESTERN_SCRIPTS = /[\u00C0-\u00D6\u00D8-\u00F6\u00F8-\u00FF\u0152\u0153]/;
+const CYRILLIC_SCRIPTS = /[\u0400-\u04FF]/;
+
+interface EncodingCandidate {
+  encoding: string; // TextDecoder label or a key of SINGLE_BYTE_TABLES
+  label: string; // Name shown in reports
+  languages: string[]; // UI languages whose users typically produce this encoding
+  scripts: RegExp; // Characters expected in names written in this encoding
+  frequent: Set<string>;
+}
+
+// Candidate decoders, tried against every archive. Add an entry here to support a new code page.
+const ENCODING_CANDIDATES: EncodingCandidate[] = [
+  { encoding: 'euc-kr', label: 'CP949', languages: ['ko'], scripts: KOREAN_SCRIPTS, frequent: new Set(KOREAN_FREQUENT) },
+  { encoding: 'shift_jis', label: 'Shift-JIS', languages: ['ja'], scripts: JAPANESE_SCRIPTS, frequent: new Set(JAPANESE_FREQUENT) },
+  { encoding: 'euc-jp', label: 'EUC-JP', languages: ['ja'], scripts: JAPANESE_SCRIPTS, frequent: new Set(JAPANESE_FREQUENT) },
+  { encoding: 'gbk', label: 'GBK', languages: ['zh'], scripts: CHINESE_SCRIPTS, frequent: new Set(CHINESE_FREQUENT) },
+  { encoding: 'big5', label: 'Big5', languages: ['zh'], scripts: CHINESE_SCRIPTS, frequent: new Set(TRADITIONAL_CHINESE_FREQUENT) },
+  { encoding: 'cp437', label: 'CP437', languages: ['en', 'de'], scripts: WESTERN_SCRIPTS, frequent: new Set(WESTERN_FREQUENT) },
+  { encoding: 'cp850', label: 'CP850', languages: ['fr', 'de', 'pt-br'], scripts: WESTERN_SCRIPTS, frequent: new Set(WESTERN_FREQUENT) },
+  { encoding: 'windows-1252', label: 'Windows-1252', languages: ['en', 'fr', 'de', 'pt-br'], scripts: WESTERN_SCRIPTS, frequent: new Set(WESTERN_FREQUENT) },
+  { encoding: 'ibm866', label: 'CP866', languages: [], scripts: CYRILLIC_SCRIPTS, frequent: new Set(CYRILLIC_FREQUENT) },
+  { encoding: 'windows-1251', label: 'Windows-1251', languages: [], scripts: CYRILLIC_SCRIPTS, frequent: new Set(CYRILLIC_FREQUENT) },
+];
+
+// Score bonus for candidates matching the UI language, enough to settle close calls
+const LANGUAGE_PRIOR_BONUS = 10;
+
+export interface EncodingDetection {
+  encoding: string;
+  label: string;
+  score: number; // 0-100
+  forced?: boolean;
+}
+
+// Encodings the user can force when auto-detection guesses wrong
+export const ENCODING_CHOICES: { encoding: string; label: string }[] = [
+  { encoding: 'utf-8', label: 'UTF-8' },
+  ...ENCODING_CANDIDATES.map(({ encoding, label }) => ({ encoding, label })),
+];
+
+// Code pages names can be written in for the legacy and compat output profiles
+export const OUTPUT_ENCODING_CHOICES = ENCODING_CHOICES.filter(({ encoding }) => encoding !== 'utf-8');
+
+export interface EntryNamePreview {
+  originalPath: string;
+  previewPath: string;
+  changed: boolean;
+  source: NameSource;
+}
+
+const UTF8_DETECTION: EncodingDetection = { encoding: 'utf-8', label: 'UTF-8', score: 100 };
+
+export function emptyNameSources(): Record<NameSource, number> {
+  return { utf8_flag: 0, unicode_path: 0, utf8: 0, code_page: 0 };
+}
+
+// Names that are neither flagged nor valid as UTF-8 need a legacy decoder
+function needsLegacyDecoding(rawName: Uint8Array, utf8Flag: boolean): boolean {
+  return !utf8Flag && tryDecode('utf-8', rawName) === null;
+}
+
+function isLowerCase(char: string): boolean {
+  return char !== char.toUpperCase();
+}
+
+function isUpperCase(char: string): boolean {
+  return char !== char.toLowerCase();
+}
+
+// Rate a decoded name against a candidate. It is consistent when every non-ASCII character belongs to the
+// expected scripts; random bytes read through a single-byte code page also flip case mid-word.
+function rateName(candidate: EncodingCandidate, decoded: string): { nonAsciiChars: number; weight: number; consistent: boolean } {
+  let nonAsciiChars = 0;
+  let weight = 0;
+  let consistent = true;
+  let previous = '';
+  for (const char of decoded) {
+    if (char.charCodeAt(0) >= 0x80) {
+      nonAsciiChars++;
+      if (isUpperCase(char) && isLowerCase(previous)) {
+        consistent = false;
+      } else if (candidate.frequent.has(char)) {
+        weight += 1;
+      } else if (candidate.scripts.test(char)) {
+        weight += 0.25;
+      } else {
+        consistent = false;
+      }
+    }
+    previous = char;
   }
+  return { nonAsciiChars, weight, consistent };
 }
 
-// Decode bytes that might be GB2312/GBK encoded (for Chinese)
-function tryDecodeGBK(bytes: Uint8Array): string | null {
-  try {
-    const decoder = new TextDecoder('gbk', { fatal: true });
-    return decoder.decode(bytes);
-  } catch {
-    return null;
+// Score how plausible a candidate encoding is over all legacy names together (0-100)
+function scoreCandidate(candidate: EncodingCandidate, names: Uint8Array[]): number {
+  let decodedNames = 0;
+  let consistentNames = 0;
+  let nonAsciiChars = 0;
+  let weight = 0;
+
+  for (const name of names) {
+    const decoded = tryDecode(candidate.encoding, name);
+    if (decoded === null || hasEncodingIssues(decoded)) continue;
+    decodedNames++;
+
+    const rating = rateName(candidate, decoded);
+    nonAsciiChars += rating.nonAsciiChars;
+    weight += rating.weight;
+    if (rating.consistent) consistentNames++;
   }
+
+  if (decodedNames === 0) return 0;
+
+  const decodeRate = decodedNames / names.length;
+  const frequency = nonAsciiChars > 0 ? weight / nonAsciiChars : 0;
+  const consistency = consistentNames / decodedNames;
+  return Math.round(100 * decodeRate * (0.7 * frequency + 0.3 * consistency));
+}
+
+// Score a single decoded name the same way (0-100), zero when it does not fit the candidate's scripts
+function scoreName(candidate: EncodingCandidate, decoded: string): number {
+  const { nonAsciiChars, weight, consistent } = rateName(candidate, decoded);
+  if (!consistent) return 0;
+  const frequency = nonAsciiChars > 0 ? weight / nonAsciiChars : 1;
+  return Math.round(100 * (0.7 * frequency + 0.3));
+}
+
+// Names the encoding is detected from. Those with a valid Unicode Path extra field are already known,
+// they should not sway the guess.
+function legacyNames(entries: ZipEntryRecord[]): Uint8Array[] {
+  return entries
+    .filter(entry => entry.unicodePath === null && needsLegacyDecoding(entry.rawName, entry.utf8Flag))
+    .map(entry => entry.rawName);
 }
 
-// Try to fix filename encoding
-function fixFilenameEncoding(filename: string): { fixed: string; wasFixed: boolean } {
-  // If we already have non-byte characters, treat it as valid Unicode and avoid "fixing" it.
-  if (!isByteString(filename)) {
-    return { fixed: filename, wasFixed: false };
+// Every candidate that decodes the names, best first, with the UI language bonus applied
+function rankEncodings(names: Uint8Array[], languageHint: string | null): EncodingDetection[] {
+  const ranked: EncodingDetection[] = [];
+  for (const candidate of ENCODING_CANDIDATES) {
+    let score = scoreCandidate(candidate, names);
+    if (score > 0 && languageHint && candidate.languages.includes(languageHint)) {
+      score = Math.min(100, score + LANGUAGE_PRIOR_BONUS);
+    }
+    if (score > 0) ranked.push({ encoding: candidate.encoding, label: candidate.label, score });
   }
+  // Stable, so ties go to the candidate listed first
+  return ranked.sort((a, b) => b.score - a.score);
+}
 
-  // If the filename looks fine, return as is
-  if (!hasEncodingIssues(filename)) {
-    // But still check if it might be latin1-interpreted EUC-KR
-    const bytes = new Uint8Array(filename.split('').map(c => c.charCodeAt(0)));
+// Pick a single encoding for the whole archive, so names are never decoded inconsistently
+function detectEncoding(names: Uint8Array[], languageHint: string | null): EncodingDetection | null {
+  if (names.length === 0) return UTF8_DETECTION;
+  return rankEncodings(names, languageHint)[0] ?? null;
+}
 
-    if (isLikelyEUCKR(bytes)) {
-      const decoded = tryDecodeEUCKR(bytes);
-      if (decoded && !hasEncodingIssues(decoded)) {
-        return { fixed: decoded, wasFixed: true };
+// Use the forced encoding if the user picked one, otherwise detect it from the names
+function resolveEncoding(
+  names: Uint8Array[],
+  forcedEncoding: string | null,
+  languageHint: string | null
+): EncodingDetection | null {
+  if (forcedEncoding) {
+    const choice = ENCODING_CHOICES.find(c => c.encoding === forcedEncoding);
+    return { encoding: forcedEncoding, label: choice?.label ?? forcedEncoding, score: 100, forced: true };
+  }
+  return detectEncoding(names, languageHint);
+}
+
+// Decode a header name or comment, preferring the UTF-8 copy from an Info-ZIP extra field
+function decodeEntryText(
+  raw: Uint8Array,
+  utf8Flag: boolean,
+  unicodeText: string | null,
+  detection: EncodingDetection | null
+): { text: string; source: NameSource } {
+  const original = decodeUTF8Lenient(raw);
+
+  // The archiver declared the text as UTF-8 (general purpose bit 11), trust it.
+  if (utf8Flag) {
+    return { text: original, source: 'utf8_flag' };
+  }
+
+  // 7-Zip, WinRAR and Info-ZIP store the real name next to the legacy one. Its CRC
+  // was checked against the header bytes, so it wins over any guess, even a forced one.
+  if (unicodeText !== null) {
+    return { text: unicodeText, source: 'unicode_path' };
+  }
+
+  // Many archivers (including macOS) also write UTF-8 without setting the flag;
+  // legacy multi-byte encodings almost never form valid UTF-8 sequences.
+  // A forced encoding applies to every name without the flag.
+  if (!detection?.forced && !needsLegacyDecoding(raw, utf8Flag)) {
+    return { text: original, source: 'utf8' };
+  }
+
+  // Decode with the encoding chosen for the whole archive
+  if (detection && detection !== UTF8_DETECTION) {
+    const decoded = tryDecode(detection.encoding, raw);
+    if (decoded && !hasEncodingIssues(decoded)) {
+      return { text: decoded, source: 'code_page' };
+    }
+  }
+
+  return { text: original, source: 'utf8' };
+}
+
+// Try to fix filename encoding from the raw name bytes stored in the archive
+function fixFilenameEncoding(
+  entry: ZipEntryRecord,
+  detection: EncodingDetection | null
+): { fixed: string; wasFixed: boolean; source: NameSource } {
+  const { text, source } = decodeEntryText(entry.rawName, entry.utf8Flag, entry.unicodePath, detection);
+  return { fixed: text, wasFixed: text !== decodeUTF8Lenient(entry.rawName), source };
+}
+
+// Decode an entry comment the same way as its name
+function decodeEntryComment(entry: ZipEntryRecord, detection: EncodingDetection | null): string {
+  return decodeEntryText(entry.rawComment, entry.utf8Flag, entry.unicodeComment, detection).text;
+}
+
+// Single-byte code pages that UTF-8 names are commonly misread through before being re-zipped
+const MOJIBAKE_CODE_PAGES = ['windows-1252', 'latin1', 'cp437'];
+const MAX_MOJIBAKE_LAYERS = 3;
+
+// Encodings whose characters take two bytes (lead byte 0x81-0xFE)
+const MULTI_BYTE_ENCODINGS = new Set(['euc-kr', 'shift_jis', 'euc-jp', 'gbk', 'big5']);
+
+const reverseTables = new Map<string, Map<string, Uint8Array>>();
+
+// Character → bytes lookup for everything above ASCII, built once by decoding the whole code space
+function getReverseTable(encoding: string): Map<string, Uint8Array> {
+  let table = reverseTables.get(encoding);
+  if (!table) {
+    const entries = new Map<string, Uint8Array>();
+    const add = (bytes: Uint8Array) => {
+      // TextDecoder treats 'latin1' as windows-1252, so true ISO-8859-1 is mapped by code point
+      const char = encoding === 'latin1' ? String.fromCharCode(bytes[0]) : tryDecode(encoding, bytes);
+      if (char && [...char].length === 1 && !entries.has(char)) entries.set(char, bytes);
+    };
+    for (let byte = 0x80; byte <= 0xff; byte++) add(Uint8Array.of(byte));
+    if (MULTI_BYTE_ENCODINGS.has(encoding)) {
+      for (let lead = 0x81; lead <= 0xfe; lead++) {
+        for (let trail = 0x40; trail <= 0xfe; trail++) add(Uint8Array.of(lead, trail));
       }
     }
+    table = entries;
+    reverseTables.set(encoding, table);
+  }
+  return table;
+}
+
+// Encode text in a legacy encoding, or null if a character does not exist in it
+function encodeText(text: string, encoding: string): Uint8Array | null {
+  const table = getReverseTable(encoding);
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (code < 0x80) {
+      bytes.push(code);
+      continue;
+    }
+    const encoded = table.get(char);
+    if (!encoded) return null;
+    bytes.push(...encoded);
+  }
+  return Uint8Array.from(bytes);
+}
+
+// Undo one layer of UTF-8 that was misread through a single-byte code page ("í•œê¸€" → "한글")
+function peelMojibakeLayer(segment: string): string | null {
+  for (const encoding of MOJIBAKE_CODE_PAGES) {
+    const bytes = encodeText(segment, encoding);
+    if (!bytes) continue;
+    const decoded = tryDecode('utf-8', bytes);
+    if (decoded !== null && decoded !== segment) return decoded;
+  }
+  return null;
+}
+
+// Repair names that went through one or more extract-with-wrong-code-page / re-zip cycles.
+// Each path segment is peeled on its own so a legitimate accented folder name does not block the rest.
+function fixDoubleEncoding(filename: string): { fixed: string; layers: number } {
+  let layers = 0;
+  const segments = filename.split('/').map(segment => {
+    let current = segment;
+    let depth = 0;
+    while (depth < MAX_MOJIBAKE_LAYERS) {
+      const peeled = peelMojibakeLayer(current);
+      if (peeled === null) break;
+      current = peeled;
+      depth++;
+    }
+    layers = Math.max(layers, depth);
+    return current;
+  });
+  return { fixed: segments.join('/'), layers };
+}
+
+// A folder name is only decoded again when the guess is safe, since the name may well be correct already
+const FOLDER_MIN_CONFIDENCE = 50; // Detection score the folder's encoding needs
+const FOLDER_MIN_LEAD = 10; // Lead over the runner-up, below it no encoding clearly wins
+const FOLDER_MIN_NAME_SCORE = 60; // Score each decoded name needs in the detected encoding
+
+// Misread names fit no candidate's scripts, and every misread multi-byte character leaves two non-ASCII
+// characters in a row. That covers the box drawing cp437 turns CP949 into ("║╕░φ╝¡"), but not a lone
+// symbol in a correct name such as "Nº 5.txt".
+function looksLikeMojibake(path: string): boolean {
+  return /[^\x00-\x7f]{2}/.test(path) && ENCODING_CANDIDATES.every(candidate => scoreName(candidate, path) === 0);
+}
+
+// Names in a folder are already decoded, possibly with the wrong code page: unzip and Explorer fall back to
+// cp437 or the ANSI code page for archives without the UTF-8 flag. Encoding such a name back gives the bytes
+// that were in the archive, which then go through the same detection as archive names.
+function recoverNameBytes(path: string): Uint8Array | null {
+  if (!looksLikeMojibake(path)) return null;
+  for (const codePage of MOJIBAKE_CODE_PAGES) {
+    const bytes = encodeText(path, codePage);
+    if (bytes && needsLegacyDecoding(bytes, false)) return bytes;
+  }
+  return null;
+}
+
+// Detect the encoding of the recovered names like for an archive, but give up without a confident, clear winner
+function detectFolderEncoding(names: Uint8Array[], opts: ProcessingOptions): EncodingDetection | null {
+  if (opts.forcedEncoding || names.length === 0) {
+    return resolveEncoding(names, opts.forcedEncoding, opts.languageHint);
+  }
+  const [best, runnerUp] = rankEncodings(names, opts.languageHint);
+  if (!best || best.score < FOLDER_MIN_CONFIDENCE) return null;
+  if (runnerUp && best.score - runnerUp.score < FOLDER_MIN_LEAD) return null;
+  return best;
+}
+
+// Decode recovered name bytes with the encoding detected for the folder. Unless the user forced the encoding,
+// the result must read as a plausible name in it; anything else stays as it is.
+function fixFolderNameEncoding(
+  path: string,
+  bytes: Uint8Array | null,
+  detection: EncodingDetection | null
+): { fixed: string; wasFixed: boolean; source: NameSource } {
+  if (bytes && detection && detection !== UTF8_DETECTION) {
+    const decoded = tryDecode(detection.encoding, bytes);
+    const candidate = ENCODING_CANDIDATES.find(c => c.encoding === detection.encoding);
+    const plausible = (name: string) => detection.forced || (!!candidate && scoreName(candidate, name) >= FOLDER_MIN_NAME_SCORE);
+    if (decoded && !hasEncodingIssues(decoded) && decoded !== path && plausible(decoded)) {
+      return { fixed: decoded, wasFixed: true, source: 'code_page' };
+    }
+  }
+  return { fixed: path, wasFixed: false, source: 'utf8' };
+}
+
+// Code page Windows uses for non-Unicode programs in each UI language
+const NATIVE_CODE_PAGES: Record<string, string> = {
+  ko: 'euc-kr',
+  ja: 'shift_jis',
+  zh: 'gbk',
+  en: 'cp437',
+  fr: 'cp850',
+  de: 'cp850',
+  'pt-br': 'cp850',
+};
+
+export function nativeCodePage(lang: string | null): string {
+  return (lang && NATIVE_CODE_PAGES[lang]) || 'cp437';
+}
+
+// Encode an output name and comment for the chosen profile. The UTF-8 flag covers both,
+// so if the code page cannot represent either of them, both fall back to UTF-8.
+function encodeEntryName(
+  name: string,
+  comment: string,
+  opts: ProcessingOptions
+): Pick<ZipEntryHeader, 'name' | 'utf8Flag' | 'extraField' | 'comment'> {
+  const encoder = new TextEncoder();
+  const utf8Name = encoder.encode(name);
+  const utf8Comment = encoder.encode(comment);
+  const isAscii = utf8Name.length === name.length && utf8Comment.length === comment.length;
+  if (opts.outputProfile !== 'utf8' && !isAscii) {
+    const encoding = opts.outputEncoding ?? nativeCodePage(opts.languageHint);
+    const legacyName = encodeText(name, encoding);
+    const legacyComment = encodeText(comment, encoding);
+    if (legacyName && legacyComment) {
+      const extraFields =
+        opts.outputProfile === 'compat'
+          ? [
+              unicodeExtraField(EXTRA_UNICODE_PATH, legacyName, utf8Name),
+              ...(comment ? [unicodeExtraField(EXTRA_UNICODE_COMMENT, legacyComment, utf8Comment)] : []),
+            ]
+          : [];
+      return {
+        name: legacyName,
+        utf8Flag: false,
+        extraField: concatBytes(extraFields),
+        comment: legacyComment,
+      };
+    }
+  }
+  return { name: utf8Name, utf8Flag: !isAscii, extraField: new Uint8Array(0), comment: utf8Comment };
+}
+
+// The archive comment has no UTF-8 flag of its own; legacy profiles keep it in the code page when possible
+function encodeArchiveComment(comment: string, opts: ProcessingOptions): Uint8Array {
+  const legacy =
+    opts.outputProfile !== 'utf8' ? encodeText(comment, opts.outputEncoding ?? nativeCodePage(opts.languageHint)) : null;
+  return legacy ?? new TextEncoder().encode(comment);
+}
+
+interface EntryMetadata {
+  lastModified: Date;
+  unixModified: Date | null;
+  host: number;
+  externalAttributes: number;
+  isDirectory: boolean;
+}
+
+function entryMetadata(entry: ZipEntryRecord): EntryMetadata {
+  return {
+    lastModified: entry.lastModified,
+    unixModified: entry.unixModified,
+    host: entry.versionMadeBy >> 8,
+    externalAttributes: entry.externalAttributes,
+    isDirectory: entry.isDirectory,
+  };
+}
 
-    return { fixed: filename, wasFixed: false };
+// Earliest date a DOS timestamp can hold, used when normalizing
+const NORMALIZED_DATE = new Date(1980, 0, 1);
+
+const S_IFMT = 0o170000;
+const S_IFREG = 0o100000;
+const S_IFDIR = 0o040000;
+const S_IFLNK = 0o120000;
+
+// Canonical Unix mode: keep the file type and whether it is executable, nothing else
+function normalizeUnixMode(mode: number, isDirectory: boolean): number {
+  const type = mode & S_IFMT;
+  if (isDirectory || type === S_IFDIR) return S_IFDIR | 0o755;
+  if (type === S_IFLNK) return S_IFLNK | 0o777;
+  return (type || S_IFREG) | (mode & 0o111 ? 0o755 : 0o644);
+}
+
+// Apply the metadata policy to the date, attributes and extended timestamp of an output entry
+function applyMetadataPolicy(
+  meta: EntryMetadata,
+  policy: MetadataPolicy
+): Pick<ZipEntryHeader, 'date' | 'host' | 'externalAttributes'> & { timestamp: Uint8Array } {
+  const dosAttributes = meta.isDirectory ? DOS_DIRECTORY_ATTRIBUTE : 0;
+  switch (policy) {
+    case 'preserve':
+      return {
+        date: meta.lastModified,
+        host: meta.host,
+        externalAttributes: meta.externalAttributes,
+        timestamp: meta.unixModified ? extendedTimestampExtraField(meta.unixModified) : new Uint8Array(0),
+      };
+    case 'normalize':
+      return {
+        date: NORMALIZED_DATE,
+        host: meta.host === HOST_UNIX ? HOST_UNIX : HOST_DOS,
+        externalAttributes:
+          meta.host === HOST_UNIX
+            ? ((normalizeUnixMode(meta.externalAttributes >>> 16, meta.isDirectory) << 16) | dosAttributes) >>> 0
+            : dosAttributes,
+        timestamp: new Uint8Array(0),
+      };
+    case 'reset':
+      return { date: new Date(), host: HOST_DOS, externalAttributes: dosAttributes, timestamp: new Uint8Array(0) };
   }
+}
+
+// Build the output header of an entry: encoded name and comment plus metadata
+function entryHeader(name: string, comment: string, meta: EntryMetadata, opts: ProcessingOptions): ZipEntryHeader {
+  const encoded = encodeEntryName(name, comment, opts);
+  const { timestamp, ...metadata } = applyMetadataPolicy(meta, opts.metadata);
+  return {
+    ...encoded,
+    extraField: concatBytes([encoded.extraField, timestamp]),
+    ...metadata,
+    encrypted: false,
+  };
+}
+
+const EMPTY_ENTRY_DATA: ZipEntryData = { compressionMethod: METHOD_STORE, crc32: 0, compressedSize: 0, uncompressedSize: 0 };
 
-  // Try to re-encode as various encodings
-  const bytes = new TextEncoder().encode(filename);
+// Files up to this size are compressed in memory, so incompressible ones can fall back to STORE
+const BUFFERED_FILE_LIMIT = 16 * 1024 * 1024;
 
-  // Try EUC-KR first (most common for Korean)
-  const eucKrDecoded = tryDecodeEUCKR(bytes);
-  if (eucKrDecoded && !hasEncodingIssues(eucKrDecoded)) {
-    return { fixed: eucKrDecoded, wasFixed: true };
+// Compress small files in memory, stream large ones through deflate (and the progress tracker, when given)
+async function addBlob(output: ZipWriter, header: ZipEntryHeader, content: Blob, progress?: ProgressTracker) {
+  if (content.size <= BUFFERED_FILE_LIMIT) {
+    const { data, ...info } = await compressContent(new Uint8Array(await content.arrayBuffer()));
+    await output.addEntry(header, info, data);
+  } else {
+    const stream = content.stream();
+    await output.addStream(header, progress ? progress.track(stream, content.size) : stream, content.size);
   }
+}
+
+// Written last, under a name none of the entries took
+async function addReport<T>(
+  output: ZipWriter,
+  kept: PlannedEntry<T>[],
+  report: DiagnosticReport,
+  context: ReportContext
+) {
+  const taken = new Set(kept.map(item => collisionKey(item.finalPath)));
+  const path = taken.has(collisionKey(REPORT_ENTRY_NAME)) ? suffixedPath(REPORT_ENTRY_NAME, taken) : REPORT_ENTRY_NAME;
+  const now = new Date();
+  const meta: EntryMetadata = { lastModified: now, unixModified: now, host: HOST_DOS, externalAttributes: 0, isDirectory: false };
+  const json = new Blob([exportReportJson(report, context)], { type: 'application/json' });
+  await addBlob(output, entryHeader(path, '', meta, context.options), json);
+}
 
-  // Try Shift-JIS for Japanese
-  const shiftJisDecoded = tryDecodeShiftJIS(bytes);
-  if (shiftJisDecoded && !hasEncodingIssues(shiftJisDecoded)) {
-    return { fixed: shiftJisDecoded, wasFixed: true };
+// Run a writing pass over a sink, aborting it on failure or cancellation so no truncated archive is kept
+async function writeToSink<T>(sink: WritableStream<Uint8Array>, write: (output: ZipWriter) => Promise<T>): Promise<T> {
+  const output = createZipWriter(sink);
+  try {
+    return await write(output);
+  } catch (err) {
+    await output.abort(err).catch(() => {});
+    throw err;
   }
+}
+
+// Fix a directory entry name the same way as file names, or null if the options drop it
+function fixDirectoryPath(
+  entry: ZipEntryRecord,
+  detection: EncodingDetection | null,
+  opts: ProcessingOptions
+): string | null {
+  const path = decodeUTF8Lenient(entry.rawName);
+  if (opts.removeMAcOSArtifacts && isMacOSArtifact(path)) return null;
+  if (opts.removeHiddenFiles && isHiddenFile(path)) return null;
 
-  // Try GBK for Chinese
-  const gbkDecoded = tryDecodeGBK(bytes);
-  if (gbkDecoded && !hasEncodingIssues(gbkDecoded)) {
-    return { fixed: gbkDecoded, wasFixed: true };
+  let finalPath = path;
+  if (opts.fixEncoding) {
+    finalPath = fixDoubleEncoding(fixFilenameEncoding(entry, detection).fixed).fixed;
   }
+  if (opts.normalizeUnicode) {
+    finalPath = normalizeFilename(finalPath).normalized;
+  }
+  const { safe, problems } = sanitizePath(finalPath);
+  if (problems.length > 0 && (opts.unsafePaths === 'drop' || safe === '')) return null;
+  // Windows names are fixed once every planned name is known
+  return safe.replace(/\/?$/, '/');
+}
 
-  return { fixed: filename, wasFixed: false };
+// Normalize decomposed Unicode (macOS stores names in NFD) to the composed NFC form
+function normalizeFilename(filename: string): { normalized: string; wasNormalized: boolean } {
+  const normalized = filename.normalize('NFC');
+  return { normalized, wasNormalized: normalized !== filename };
 }
 
 // Check if file is a macOS artifact
@@ -159,123 +951,745 @@ function isDSStore(path: string): boolean {
   return path.endsWith('.DS_Store') || path.includes('/.DS_Store');
 }
 
-// Check if file is hidden (starts with .)
+// Check if file is hidden (starts with .); the . and .. path segments are not names
 function isHiddenFile(path: string): boolean {
   const parts = path.split('/');
-  return parts.some(part => part.startsWith('.') && part !== '.DS_Store');
+  return parts.some(part => part.startsWith('.') && part !== '.' && part !== '..' && part !== '.DS_Store');
 }
 
-// Analyze ZIP file and generate diagnostic report
-export async function analyzeZip(file: File): Promise<DiagnosticReport> {
-  const zip = new JSZip();
-  const contents = await zip.loadAsync(file);
+// Path safety: names that would extract outside the target folder (zip-slip) or are cut short by the file system
+// A drive letter only when the colon ends the first segment: "a:b?.txt" is a name with reserved characters
+const DRIVE_PREFIX = /^[A-Za-z]:(?:[\\/]|$)/;
 
-  const issues: DiagnosticIssue[] = [];
-  let macosArtifacts = 0;
-  let dsStoreFiles = 0;
-  let encodingIssues = 0;
-  let hiddenFiles = 0;
-  let totalFiles = 0;
+// Resolve . and .. segments; `escapes` is set once a .. would climb above the archive root
+function resolveSegments(segments: string[]): { resolved: string[]; escapes: boolean } {
+  const resolved: string[] = [];
+  let escapes = false;
+  for (const segment of segments) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') {
+      if (resolved.length === 0) escapes = true;
+      resolved.pop();
+    } else {
+      resolved.push(segment);
+    }
+  }
+  return { resolved, escapes };
+}
 
-  for (const [path, zipEntry] of Object.entries(contents.files)) {
-    if (zipEntry.dir) continue;
-    totalFiles++;
+// Check an entry path for zip-slip patterns and canonicalize it to a relative path inside the archive root.
+// `safe` is empty when nothing of the name is left, such entries are always dropped.
+export function sanitizePath(path: string): { safe: string; problems: UnsafePathProblem[] } {
+  const problems: UnsafePathProblem[] = [];
+  let working = path;
+  if (working.includes('\u0000')) {
+    problems.push('nul_byte');
+    working = working.replace(/\u0000/g, '');
+  }
+  if (working.includes('\\')) {
+    problems.push('backslash');
+    working = working.replace(/\\/g, '/');
+  }
+  if (DRIVE_PREFIX.test(working)) {
+    problems.push('drive_letter');
+    working = working.slice(2);
+  }
+  if (working.startsWith('/')) {
+    problems.push('absolute');
+  }
+  const segments = working.split('/');
+  if (segments.some(segment => segment === '..')) {
+    problems.push('traversal');
+  }
+  if (problems.length === 0) return { safe: path, problems };
 
-    // Check for macOS artifacts
-    if (isMacOSArtifact(path)) {
-      macosArtifacts++;
-      issues.push({
-        type: 'macos_artifact',
-        originalPath: path,
-        description: 'macOS 메타데이터 파일 (__MACOSX)',
-      });
-      continue;
+  const isDirectory = working.endsWith('/');
+  const joined = resolveSegments(segments).resolved.join('/');
+  return { safe: joined && isDirectory ? `${joined}/` : joined, problems };
+}
+
+// Apply the unsafe path policy to a file path; null means the entry is dropped
+function secureEntryPath(
+  path: string,
+  originalPath: string,
+  opts: ProcessingOptions,
+  issues: DiagnosticIssue[],
+  count: () => void
+): string | null {
+  const { safe, problems } = sanitizePath(path);
+  if (problems.length === 0) return path;
+  count();
+  const dropped = opts.unsafePaths === 'drop' || safe === '';
+  issues.push({
+    type: 'unsafe_path',
+    code: 'unsafe_path',
+    action: dropped ? 'removed' : 'renamed',
+    originalPath,
+    fixedPath: dropped ? undefined : safe,
+    unsafeProblems: problems,
+  });
+  return dropped ? null : safe;
+}
+
+function isSymlink(entry: ZipEntryRecord): boolean {
+  return entry.versionMadeBy >> 8 === HOST_UNIX && ((entry.externalAttributes >>> 16) & S_IFMT) === S_IFLNK;
+}
+
+// A symlink whose target is absolute or climbs above the archive root lets later entries be written anywhere
+function symlinkEscapes(linkPath: string, target: string): boolean {
+  if (target.startsWith('/') || target.includes('\\') || DRIVE_PREFIX.test(target)) return true;
+  const parent = linkPath.split('/').slice(0, -1);
+  return resolveSegments([...parent, ...target.split('/')]).escapes;
+}
+
+// Symlinks are only kept as links when the metadata policy keeps Unix modes; escaping ones are always dropped.
+// Encrypted links can only be checked with the password, which processing always has.
+async function checkSymlink(file: Blob, entry: ZipEntryRecord, path: string, opts: ProcessingOptions): Promise<boolean> {
+  if (opts.metadata === 'reset' || !isSymlink(entry)) return false;
+  let target: Uint8Array;
+  if (entry.encryption) {
+    if (opts.password === null) return false;
+    const { data, info } = await decryptEntry(file, entry, opts.password);
+    target = new Uint8Array(await new Response(decompressStream(data, info.compressionMethod, info.uncompressedSize)).arrayBuffer());
+  } else {
+    target = await readEntryData(file, entry);
+  }
+  return symlinkEscapes(path, new TextDecoder().decode(target));
+}
+
+// Encryption
+
+function encryptionLabel(method: 'zipcrypto' | 'aes', aesStrength: number): string {
+  return method === 'aes' ? `AES-${64 * (aesStrength + 1)}` : 'ZipCrypto';
+}
+
+function entryEncryptionLabel(entry: ZipEntryRecord): string {
+  return encryptionLabel(entry.encryption ?? 'zipcrypto', entry.aes?.strength ?? 0);
+}
+
+// Method and AES parameters an encrypted entry gets in the output. AES entries keep AE-2 (no CRC) when
+// they had it, ZipCrypto sources become AE-1 since their CRC is known.
+function encryptionTarget(entry: ZipEntryRecord, policy: OutputEncryption, password: string): EncryptionTarget {
+  const aesVersion = entry.aes?.version ?? 1;
+  switch (policy) {
+    case 'same':
+      return entry.aes
+        ? { method: 'aes', password, aesStrength: entry.aes.strength, aesVersion }
+        : { method: 'zipcrypto', password, aesStrength: 0, aesVersion: 0 };
+    case 'zipcrypto':
+      return { method: 'zipcrypto', password, aesStrength: 0, aesVersion: 0 };
+    case 'aes256':
+      return { method: 'aes', password, aesStrength: 3, aesVersion };
+  }
+}
+
+// Decrypt the compressed data of an entry and encrypt it again for the output, without inflating it.
+// ZipCrypto needs the CRC for its check byte, so AE-2 sources are decrypted once more to compute it.
+async function reencryptEntry(
+  file: Blob,
+  entry: ZipEntryRecord,
+  header: ZipEntryHeader,
+  target: EncryptionTarget
+): Promise<{ header: ZipEntryHeader; info: ZipEntryData; data: ReadableStream<Uint8Array> }> {
+  const crc32 =
+    target.method === 'zipcrypto' && entry.aes?.version === 2
+      ? await decryptedCrc32(file, entry, target.password)
+      : entry.crc32;
+  const decrypted = await decryptEntry(file, entry, target.password);
+  const encrypted = await encryptEntry(decrypted.data, { ...decrypted.info, crc32 }, target);
+  return {
+    header: { ...header, encrypted: true, extraField: concatBytes([header.extraField, encrypted.extraField]) },
+    info: encrypted.info,
+    data: encrypted.data,
+  };
+}
+
+// Windows compatibility: characters, reserved device names and path length Explorer refuses to extract
+const WINDOWS_ILLEGAL_CHAR = /[<>:"|?*\u0000-\u001F]/;
+const WINDOWS_ILLEGAL_CHARS = new RegExp(WINDOWS_ILLEGAL_CHAR.source, 'g');
+const WINDOWS_RESERVED_NAME = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])(\..*)?$/i;
+const WINDOWS_TRAILING = /[. ]+$/;
+const WINDOWS_MAX_PATH = 260;
+const WINDOWS_DIRECTORY_LIMIT = 32; // Directory names longer than this are shortened first when a path is too long
+const WINDOWS_MIN_NAME = 8; // Characters of the file name kept before the hash suffix
+
+const FULLWIDTH_LOOKALIKES: Record<string, string> = {
+  '<': '＜',
+  '>': '＞',
+  ':': '：',
+  '"': '＂',
+  '|': '｜',
+  '?': '？',
+  '*': '＊',
+  '.': '．',
+  ' ': '　',
+};
+
+// Short stable suffix (FNV-1a) so truncated names stay unique and the same input always maps to the same name
+function hashSuffix(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `~${(hash >>> 0).toString(16).padStart(8, '0').slice(0, 6)}`;
+}
+
+function splitExtension(name: string): [string, string] {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+}
+
+// Make one path component valid on Windows; the result only depends on the component so directories stay consistent
+function fixWindowsComponent(
+  component: string,
+  policy: Exclude<WindowsNamePolicy, 'off'>,
+  problems: Set<WindowsNameProblem>
+): string {
+  if (component === '.' || component === '..') return component;
+  const illegal = WINDOWS_ILLEGAL_CHAR.test(component);
+  const trailing = WINDOWS_TRAILING.test(component);
+  const reserved = WINDOWS_RESERVED_NAME.test(component.replace(WINDOWS_TRAILING, ''));
+  if (illegal) problems.add('illegal_chars');
+  if (trailing) problems.add('trailing_dot_space');
+  if (reserved) problems.add('reserved_name');
+  if (!illegal && !trailing && !reserved) return component;
+
+  if (policy === 'truncate') {
+    // Cut at the first offending character and mark the cut with a hash, like 8.3 short names
+    const [base, extension] = splitExtension(component);
+    const illegalAt = base.search(WINDOWS_ILLEGAL_CHAR);
+    const kept = (illegalAt >= 0 ? base.slice(0, illegalAt) : base).replace(WINDOWS_TRAILING, '');
+    const cleanExtension = extension.replace(WINDOWS_ILLEGAL_CHARS, '').replace(WINDOWS_TRAILING, '');
+    return `${kept}${hashSuffix(component)}${cleanExtension}`;
+  }
+
+  const replace = (char: string) => (policy === 'fullwidth' ? FULLWIDTH_LOOKALIKES[char] ?? '_' : '_');
+  let fixed = component
+    .replace(WINDOWS_ILLEGAL_CHARS, replace)
+    .replace(WINDOWS_TRAILING, run => Array.from(run, replace).join(''));
+  if (reserved) {
+    const [base, extension] = splitExtension(fixed);
+    fixed = `${base}_${extension}`;
+  }
+  return fixed;
+}
+
+// Directories that must be shortened because some path under them is too long for Windows. It is worked out
+// once for every name in the archive so a directory gets the same short name in its own entry and in all paths below it.
+export function longWindowsDirectories(paths: string[], policy: WindowsNamePolicy): Set<string> {
+  const renamePolicy = policy === 'off' ? 'underscore' : policy;
+  const directories = new Set<string>();
+  for (const path of paths) {
+    const isDirectory = path.endsWith('/');
+    const components = path.replace(/\/$/, '').split('/');
+    const fixedComponents = components.map(component => fixWindowsComponent(component, renamePolicy, new Set()));
+    if (fixedComponents.join('/').length + (isDirectory ? 1 : 0) <= WINDOWS_MAX_PATH) continue;
+    const directoryCount = isDirectory ? components.length : components.length - 1;
+    for (let i = 0; i < directoryCount; i++) {
+      if (fixedComponents[i].length > WINDOWS_DIRECTORY_LIMIT) directories.add(components.slice(0, i + 1).join('/'));
     }
+  }
+  return directories;
+}
 
-    // Check for .DS_Store
-    if (isDSStore(path)) {
-      dsStoreFiles++;
-      issues.push({
-        type: 'ds_store',
-        originalPath: path,
-        description: 'macOS 폴더 설정 파일 (.DS_Store)',
-      });
-      continue;
+// Check a path against Windows naming rules and rewrite it under the policy ('off' only reports)
+export function fixWindowsPath(
+  path: string,
+  policy: WindowsNamePolicy,
+  longDirectories: ReadonlySet<string>,
+  isDirectory = false
+): { fixed: string; problems: WindowsNameProblem[] } {
+  const problems = new Set<WindowsNameProblem>();
+  const components = path.replace(/\/$/, '').split('/');
+  const renamePolicy = policy === 'off' ? 'underscore' : policy;
+  const fixedComponents = components.map(component => fixWindowsComponent(component, renamePolicy, problems));
+
+  const length = () => fixedComponents.join('/').length + (isDirectory ? 1 : 0);
+  if (length() > WINDOWS_MAX_PATH) problems.add('path_too_long');
+  const directoryCount = isDirectory ? fixedComponents.length : fixedComponents.length - 1;
+  for (let i = 0; i < directoryCount; i++) {
+    if (!longDirectories.has(components.slice(0, i + 1).join('/'))) continue;
+    problems.add('path_too_long');
+    fixedComponents[i] = `${fixedComponents[i].slice(0, WINDOWS_DIRECTORY_LIMIT - 7)}${hashSuffix(components[i])}`;
+  }
+  if (!isDirectory && length() > WINDOWS_MAX_PATH) {
+    const [base, extension] = splitExtension(fixedComponents[directoryCount]);
+    const room = Math.max(WINDOWS_MIN_NAME, base.length - (length() - WINDOWS_MAX_PATH) - 7);
+    fixedComponents[directoryCount] = `${base.slice(0, room)}${hashSuffix(path)}${extension}`;
+  }
+
+  if (policy === 'off' || problems.size === 0) return { fixed: path, problems: [...problems] };
+  return { fixed: fixedComponents.join('/') + (isDirectory ? '/' : ''), problems: [...problems] };
+}
+
+// Apply the Windows rename policy to a file path, recording the rename as an issue
+function renameForWindows(
+  path: string,
+  originalPath: string,
+  longDirectories: ReadonlySet<string>,
+  opts: ProcessingOptions,
+  issues: DiagnosticIssue[],
+  count: () => void
+): string {
+  const { fixed, problems } = fixWindowsPath(path, opts.windowsNames, longDirectories);
+  if (problems.length === 0) return path;
+  count();
+  // With the policy off the name is reported but left as is
+  const kept = fixed === path;
+  issues.push({
+    type: 'windows_name',
+    code: 'windows_name',
+    action: kept ? 'kept' : 'renamed',
+    originalPath,
+    fixedPath: kept ? undefined : fixed,
+    windowsProblems: problems,
+  });
+  return fixed;
+}
+
+// Rename every planned entry for Windows once all names are known, leaving the names given by hand as they are
+function renamePlannedForWindows<T>(
+  planned: PlannedEntry<T>[],
+  namedByHand: ReadonlySet<PlannedEntry<T>>,
+  opts: ProcessingOptions,
+  issues: DiagnosticIssue[],
+  count: () => void
+): void {
+  const longDirectories = longWindowsDirectories(planned.map(item => item.finalPath), opts.windowsNames);
+  for (const item of planned) {
+    if (namedByHand.has(item)) continue;
+    item.finalPath = item.isDirectory
+      ? fixWindowsPath(item.finalPath, opts.windowsNames, longDirectories, true).fixed.replace(/\/?$/, '/')
+      : renameForWindows(item.finalPath, item.originalPath, longDirectories, opts, issues, count);
+  }
+}
+
+// Manual decisions
+
+// True when the entry was excluded by hand
+function excludedByOverride(path: string, opts: ProcessingOptions, issues: DiagnosticIssue[]): boolean {
+  if (opts.overrides[path]?.include !== false) return false;
+  issues.push({ type: 'excluded', code: 'manual_exclude', action: 'removed', originalPath: path });
+  return true;
+}
+
+// Whether the options remove an entry they flagged, unless it was included by hand
+function removedByOptions(path: string, remove: boolean, opts: ProcessingOptions): boolean {
+  return remove && opts.overrides[path]?.include !== true;
+}
+
+// The name given by hand, or null to keep the fixed one
+function renamedByOverride(path: string, fixedPath: string, issues: DiagnosticIssue[], opts: ProcessingOptions): string | null {
+  const rename = opts.overrides[path]?.rename;
+  if (rename === undefined || rename === '') return null;
+  if (rename !== fixedPath) {
+    issues.push({ type: 'renamed', code: 'manual_rename', action: 'renamed', originalPath: path, fixedPath: rename });
+  }
+  return rename;
+}
+
+// One row per file: the name it ends up with and every kind of issue it has
+function reviewEntries<T>(
+  files: Omit<ReviewEntry, 'fixedPath' | 'issueTypes'>[],
+  planned: PlannedEntry<T>[],
+  issues: DiagnosticIssue[]
+): ReviewEntry[] {
+  const fixedPaths = new Map(planned.filter(item => !item.isDirectory).map(item => [item.originalPath, item.finalPath]));
+  const issueTypes = new Map<string, IssueType[]>();
+  for (const { type, originalPath } of issues) {
+    const types = issueTypes.get(originalPath) ?? [];
+    if (!types.includes(type)) types.push(type);
+    issueTypes.set(originalPath, types);
+  }
+  return files.map(file => ({
+    ...file,
+    fixedPath: fixedPaths.get(file.originalPath) ?? null,
+    issueTypes: issueTypes.get(file.originalPath) ?? [],
+  }));
+}
+
+// TAR members have no CRC until they are recompressed, and AE-2 encryption leaves it blank
+function storedCrc32(entry: ZipEntryRecord, format: ArchiveFormat): number | null {
+  return format === 'zip' && entry.aes?.version !== 2 ? entry.crc32 : null;
+}
+
+// Thrown before anything is inflated when the pre-flight scan exceeds a limit and limitAction is refuse
+export class ResourceLimitError extends Error {
+  constructor(readonly scan: ArchiveScan) {
+    super(`Resource limits exceeded: ${scan.violations.map(violation => `${violation.limit} ${violation.value} > ${violation.max}`).join(', ')}`);
+    this.name = 'ResourceLimitError';
+  }
+}
+
+// Thrown by the abort collision policy before anything is written; the name survives the trip back from the worker
+export class NameCollisionError extends Error {
+  constructor(readonly collisions: NameCollision[]) {
+    super(`Name collisions: ${collisions.map(collision => collision.originalPaths.join(' / ')).join(', ')}`);
+    this.name = 'NameCollisionError';
+  }
+}
+
+// An entry with its final name, planned before writing so collisions can be resolved across the whole archive
+export interface PlannedEntry<T> {
+  source: T;
+  originalPath: string;
+  finalPath: string;
+  lastModified: Date;
+  isDirectory: boolean;
+  size: number; // Uncompressed size, for progress
+}
+
+function collisionKey(path: string): string {
+  return path.normalize('NFC').toLowerCase();
+}
+
+// Group files whose final names collide; directories are left out, they merge without losing anything
+function findNameCollisions<T>(planned: PlannedEntry<T>[]): PlannedEntry<T>[][] {
+  const groups = new Map<string, PlannedEntry<T>[]>();
+  for (const item of planned) {
+    if (item.isDirectory) continue;
+    const key = collisionKey(item.finalPath);
+    const group = groups.get(key);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(key, [item]);
+    }
+  }
+  return [...groups.values()].filter(group => group.length > 1);
+}
+
+// Add " (n)" before the extension until the name is free
+function suffixedPath(path: string, taken: Set<string>): string {
+  const slash = path.lastIndexOf('/');
+  const [base, extension] = splitExtension(path.slice(slash + 1));
+  for (let n = 1; ; n++) {
+    const candidate = `${path.slice(0, slash + 1)}${base} (${n})${extension}`;
+    const key = collisionKey(candidate);
+    if (!taken.has(key)) {
+      taken.add(key);
+      return candidate;
     }
+  }
+}
 
-    // Check for hidden files
-    if (isHiddenFile(path)) {
-      hiddenFiles++;
-      issues.push({
-        type: 'hidden_file',
-        originalPath: path,
-        description: '숨김 파일',
-      });
+// Resolve every collision in the plan under the policy, recording renamed and dropped entries as issues
+export function resolveNameCollisions<T>(
+  planned: PlannedEntry<T>[],
+  policy: CollisionPolicy,
+  issues: DiagnosticIssue[]
+): { kept: PlannedEntry<T>[]; collisions: NameCollision[] } {
+  const groups = findNameCollisions(planned);
+  const collisions = groups.map(group => ({
+    path: group[0].finalPath,
+    originalPaths: group.map(item => item.originalPath),
+  }));
+  if (groups.length === 0) return { kept: planned, collisions: [] };
+  if (policy === 'abort') throw new NameCollisionError(collisions);
+
+  const taken = new Set(planned.map(item => collisionKey(item.finalPath)));
+  const dropped = new Set<PlannedEntry<T>>();
+  for (const group of groups) {
+    if (policy === 'keep_newest') {
+      const newest = group.reduce((a, b) => (b.lastModified >= a.lastModified ? b : a));
+      for (const item of group) {
+        if (item === newest) continue;
+        dropped.add(item);
+        issues.push({
+          type: 'collision',
+          code: 'name_collision',
+          action: 'removed',
+          originalPath: item.originalPath,
+          conflictsWith: newest.originalPath,
+        });
+      }
+    } else {
+      for (const item of group.slice(1)) {
+        item.finalPath = suffixedPath(item.finalPath, taken);
+        issues.push({
+          type: 'collision',
+          code: 'name_collision',
+          action: 'renamed',
+          originalPath: item.originalPath,
+          fixedPath: item.finalPath,
+          conflictsWith: group[0].originalPath,
+        });
+      }
     }
+  }
+
+  return {
+    kept: planned.filter(item => !dropped.has(item)),
+    collisions: groups.map((group, i) => ({
+      ...collisions[i],
+      resolvedPaths: group.map(item => (dropped.has(item) ? null : item.finalPath)),
+    })),
+  };
+}
 
-    // Check for encoding issues
-    const { fixed, wasFixed } = fixFilenameEncoding(path);
-    if (wasFixed) {
-      encodingIssues++;
+// Report the collisions a plan would run into, for analysis. Names are resolved as the policy will resolve them
+// so the review shows the final names; under abort they are only reported.
+function reportNameCollisions<T>(
+  planned: PlannedEntry<T>[],
+  policy: CollisionPolicy,
+  issues: DiagnosticIssue[]
+): { kept: PlannedEntry<T>[]; collisions: NameCollision[] } {
+  if (policy !== 'abort') {
+    const start = issues.length;
+    const resolved = resolveNameCollisions(planned, policy, issues);
+    for (let i = start; i < issues.length; i++) issues[i] = { ...issues[i], action: 'detected' };
+    return resolved;
+  }
+  const collisions = findNameCollisions(planned).map(group => {
+    for (const item of group.slice(1)) {
       issues.push({
-        type: 'encoding',
-        originalPath: path,
-        fixedPath: fixed,
-        description: '파일명 인코딩 문제 감지 (UTF-8로 변환 필요)',
+        type: 'collision',
+        code: 'name_collision',
+        action: 'detected',
+        originalPath: item.originalPath,
+        fixedPath: item.finalPath,
+        conflictsWith: group[0].originalPath,
       });
     }
+    return { path: group[0].finalPath, originalPaths: group.map(item => item.originalPath) };
+  });
+  return { kept: planned, collisions };
+}
+
+// Entries with a recognizable archive extension count as one more nesting level
+const NESTED_ARCHIVE = /\.(zip|jar|war|apk|epub|7z|rar|tar|tgz|gz|bz2|xz)$/i;
+const NESTED_ZIP = /\.(zip|jar|war|apk|epub)$/i;
+
+// Small entries can have large ratios without being dangerous, so ratios are only checked above this size
+const RATIO_MIN_SIZE = 1024 * 1024;
+
+// Nesting depth seen from the central directories alone: stored inner ZIPs are opened, compressed ones
+// count as one level because looking inside would mean inflating them
+async function scanNestingDepth(file: Blob, entries: ZipEntryRecord[], remaining: number): Promise<number> {
+  let depth = 1;
+  for (const entry of entries) {
+    const name = decodeUTF8Lenient(entry.rawName);
+    if (entry.isDirectory || !NESTED_ARCHIVE.test(name)) continue;
+    let inner = 1;
+    if (remaining > 0 && !entry.encryption && entry.compressionMethod === METHOD_STORE && NESTED_ZIP.test(name)) {
+      try {
+        const slice = await sliceEntryData(file, entry);
+        inner = await scanNestingDepth(slice, (await readZipDirectory(slice)).entries, remaining - 1);
+      } catch {
+        // Not a readable ZIP, it still counts as one level
+      }
+    }
+    depth = Math.max(depth, 1 + inner);
   }
+  return depth;
+}
 
-  // Calculate encoding confidence
-  let encodingConfidence = 0;
-  if (macosArtifacts > 0 || dsStoreFiles > 0) {
-    encodingConfidence += 40; // macOS origin increases likelihood
+// Pre-flight scan of the central directory, run before any entry is inflated
+async function scanArchive(file: Blob, entries: ZipEntryRecord[], limits: ResourceLimits): Promise<ArchiveScan> {
+  let totalSize = 0;
+  let compressedSize = 0;
+  let maxRatio = 0;
+  let maxRatioPath: string | null = null;
+  const violations: LimitViolation[] = [];
+
+  for (const entry of entries) {
+    totalSize += entry.uncompressedSize;
+    compressedSize += entry.compressedSize;
+    if (entry.uncompressedSize < RATIO_MIN_SIZE) continue;
+    const ratio = entry.uncompressedSize / Math.max(entry.compressedSize, 1);
+    if (ratio > maxRatio) {
+      maxRatio = ratio;
+      maxRatioPath = decodeUTF8Lenient(entry.rawName);
+    }
+  }
+  const nestingDepth = await scanNestingDepth(file, entries, limits.maxNestingDepth);
+
+  if (entries.length > limits.maxEntries) {
+    violations.push({ limit: 'entries', value: entries.length, max: limits.maxEntries });
   }
-  if (encodingIssues > 0) {
-    encodingConfidence += Math.min(60, encodingIssues * 15);
+  if (totalSize > limits.maxTotalSize) {
+    violations.push({ limit: 'total_size', value: totalSize, max: limits.maxTotalSize });
+  }
+  if (maxRatio > limits.maxRatio) {
+    violations.push({ limit: 'ratio', value: maxRatio, max: limits.maxRatio, path: maxRatioPath ?? undefined });
+  }
+  if (nestingDepth > limits.maxNestingDepth) {
+    violations.push({ limit: 'nesting_depth', value: nestingDepth, max: limits.maxNestingDepth });
+  }
+
+  return { entryCount: entries.length, totalSize, compressedSize, maxRatio, maxRatioPath, nestingDepth, violations };
+}
+
+// Scan the archive and refuse it when a limit is exceeded and the options say so
+async function guardArchive(file: Blob, entries: ZipEntryRecord[], opts: ProcessingOptions): Promise<ArchiveScan> {
+  const scan = await scanArchive(file, entries, opts.limits);
+  if (opts.limitAction === 'refuse' && scan.violations.length > 0) {
+    throw new ResourceLimitError(scan);
   }
+  return scan;
+}
+
+interface ProgressTracker {
+  next: () => void; // Start the next entry
+  track: (stream: ReadableStream<Uint8Array>, streamSize: number) => ReadableStream<Uint8Array>;
+  finish: () => void;
+}
 
+// Report progress at the start of every entry and as its data streams through, and stop at either point
+// if the task was cancelled. A tracked stream counts toward the entry's size in proportion to what it has read,
+// so compressed and encrypted streams advance the same byte total as inflated ones.
+function trackProgress(sizes: number[], control: TaskControl): ProgressTracker {
+  const bytesTotal = sizes.reduce((sum, size) => sum + size, 0);
+  let entriesDone = 0;
+  let bytesDone = 0;
+  let current = -1;
+  let entryStart = 0;
+  const report = () =>
+    control.onProgress?.({ entriesDone, entriesTotal: sizes.length, bytesDone, bytesTotal });
+  const complete = () => {
+    if (current < 0) return;
+    entriesDone = current + 1;
+    bytesDone = entryStart + sizes[current];
+  };
   return {
-    totalFiles,
-    issues,
-    macosArtifacts,
-    dsStoreFiles,
-    encodingIssues,
-    hiddenFiles,
-    encodingConfidence: Math.min(100, encodingConfidence),
+    next() {
+      complete();
+      report();
+      control.signal?.throwIfAborted();
+      current++;
+      entryStart = bytesDone;
+    },
+    track(stream, streamSize) {
+      const size = sizes[current];
+      let read = 0;
+      return stream.pipeThrough(
+        new TransformStream<Uint8Array, Uint8Array>({
+          transform(chunk, controller) {
+            control.signal?.throwIfAborted();
+            read += chunk.length;
+            bytesDone = entryStart + Math.min(size, Math.round((read / Math.max(streamSize, 1)) * size));
+            report();
+            controller.enqueue(chunk);
+          },
+        })
+      );
+    },
+    finish() {
+      complete();
+      report();
+    },
   };
 }
 
-// Process ZIP file and create a fixed version
-export async function processZip(
-  file: File,
-  options: Partial<ProcessingOptions> = {}
-): Promise<{ blob: Blob; report: DiagnosticReport }> {
-  const opts = { ...DEFAULT_OPTIONS, ...options };
-  const sourceZip = new JSZip();
-  const targetZip = new JSZip();
+// Archive readers: every input format is presented as ZIP entry records plus the blob their data is in,
+// so analysis and fixing are the same for all of them. Further formats (7z, ...) plug in here.
+
+interface ArchiveContents {
+  format: ArchiveFormat;
+  entries: ZipEntryRecord[];
+  comment: Uint8Array;
+  data: Blob; // What the entries' data offsets point into
+  copyable: boolean; // Entries have a CRC and compressed data that can be copied into the output as is
+}
 
-  const contents = await sourceZip.loadAsync(file);
+interface ArchiveReader {
+  extensions: string[];
+  detect: (head: Uint8Array) => boolean; // Tested on the first 512 bytes, in order
+  read: (file: Blob, opts: ProcessingOptions) => Promise<ArchiveContents>;
+}
+
+const ARCHIVE_READERS: ArchiveReader[] = [
+  {
+    extensions: ['.tar.gz', '.tgz'],
+    detect: isGzip,
+    read: async (file, opts) => {
+      // The TAR inside has to be inflated up front, so the total size limit applies while doing it
+      const tar = await gunzip(file, opts.limitAction === 'refuse' ? opts.limits.maxTotalSize : null);
+      return { format: 'tar.gz', comment: new Uint8Array(0), copyable: false, ...(await readTarDirectory(tar)) };
+    },
+  },
+  {
+    extensions: ['.tar'],
+    detect: isTarHeader,
+    read: async file => ({ format: 'tar', comment: new Uint8Array(0), copyable: false, ...(await readTarDirectory(file)) }),
+  },
+  // Last, since self-extracting ZIPs do not start with a signature
+  {
+    extensions: ['.zip'],
+    detect: () => true,
+    read: async file => ({ format: 'zip', ...(await readZipDirectory(file)), data: file, copyable: true }),
+  },
+];
+
+export const ARCHIVE_EXTENSIONS = ARCHIVE_READERS.flatMap(reader => reader.extensions);
+
+export function isSupportedArchive(name: string): boolean {
+  const lower = name.toLowerCase();
+  return ARCHIVE_EXTENSIONS.some(extension => lower.endsWith(extension));
+}
+
+async function openArchive(file: Blob, opts: ProcessingOptions): Promise<ArchiveContents> {
+  const head = new Uint8Array(await file.slice(0, 512).arrayBuffer());
+  const reader = ARCHIVE_READERS.find(candidate => candidate.detect(head))!;
+  return reader.read(file, opts);
+}
+
+// Work out the final name of every entry in an archive. Analysis and processing share the plan, so the review
+// shows exactly what processing writes; nothing is written until collisions are resolved.
+// Symlink targets are only read when inflate is set.
+async function planArchive(
+  archive: ArchiveContents,
+  detection: EncodingDetection | null,
+  scan: ArchiveScan,
+  opts: ProcessingOptions,
+  inflate: boolean
+): Promise<{ planned: PlannedEntry<ZipEntryRecord>[]; report: DiagnosticReport }> {
+  const planned: PlannedEntry<ZipEntryRecord>[] = [];
+  const namedByHand = new Set<PlannedEntry<ZipEntryRecord>>();
   const issues: DiagnosticIssue[] = [];
   let macosArtifacts = 0;
   let dsStoreFiles = 0;
   let encodingIssues = 0;
+  let mojibakeIssues = 0;
+  let normalizationIssues = 0;
+  let windowsNameIssues = 0;
+  let unsafePathIssues = 0;
   let hiddenFiles = 0;
+  let encryptedFiles = 0;
   let totalFiles = 0;
-  let processedFiles = 0;
+  const nameSources = emptyNameSources();
+
+  for (const entry of archive.entries) {
+    // Keep directory entries so empty folders survive
+    if (entry.isDirectory) {
+      const directoryPath = fixDirectoryPath(entry, detection, opts);
+      if (directoryPath !== null) {
+        planned.push({
+          source: entry,
+          originalPath: decodeUTF8Lenient(entry.rawName),
+          finalPath: directoryPath,
+          lastModified: entry.lastModified,
+          isDirectory: true,
+          size: 0,
+        });
+      }
+      continue;
+    }
 
-  for (const [path, zipEntry] of Object.entries(contents.files)) {
-    if (zipEntry.dir) continue;
+    const path = decodeUTF8Lenient(entry.rawName);
     totalFiles++;
+    if (excludedByOverride(path, opts, issues)) continue;
 
     // Check for macOS artifacts
     if (isMacOSArtifact(path)) {
       macosArtifacts++;
-      if (opts.removeMAcOSArtifacts) {
+      if (removedByOptions(path, opts.removeMAcOSArtifacts, opts)) {
         issues.push({
           type: 'macos_artifact',
+          code: 'macos_artifact',
+          action: 'removed',
           originalPath: path,
-          description: '삭제됨: macOS 메타데이터 파일',
         });
         continue;
       }
@@ -284,11 +1698,12 @@ export async function processZip(
     // Check for .DS_Store
     if (isDSStore(path)) {
       dsStoreFiles++;
-      if (opts.removeDSStore) {
+      if (removedByOptions(path, opts.removeDSStore, opts)) {
         issues.push({
           type: 'ds_store',
+          code: 'ds_store',
+          action: 'removed',
           originalPath: path,
-          description: '삭제됨: .DS_Store 파일',
         });
         continue;
       }
@@ -297,95 +1712,461 @@ export async function processZip(
     // Check for hidden files
     if (isHiddenFile(path)) {
       hiddenFiles++;
-      if (opts.removeHiddenFiles) {
+      if (removedByOptions(path, opts.removeHiddenFiles, opts)) {
         issues.push({
           type: 'hidden_file',
+          code: 'hidden_file',
+          action: 'removed',
           originalPath: path,
-          description: '삭제됨: 숨김 파일',
         });
         continue;
       }
     }
 
+    // Without the password an encrypted entry can only be reported. With it the entry is encrypted again,
+    // and the method only changes if the options ask for it.
+    if (entry.encryption) {
+      encryptedFiles++;
+      const from = entryEncryptionLabel(entry);
+      if (opts.password === null) {
+        issues.push({ type: 'encrypted', code: 'encrypted', action: 'kept', originalPath: path, encryption: from });
+      } else {
+        const target = encryptionTarget(entry, opts.outputEncryption, opts.password);
+        const to = encryptionLabel(target.method, target.aesStrength);
+        if (from !== to) {
+          issues.push({
+            type: 'encrypted',
+            code: 'reencrypted',
+            action: 'kept',
+            originalPath: path,
+            encryption: to,
+            previousEncryption: from,
+          });
+        }
+      }
+    }
+
     // Fix encoding if needed
     let finalPath = path;
+    let nameSource: NameSource = entry.utf8Flag ? 'utf8_flag' : 'utf8';
     if (opts.fixEncoding) {
-      const { fixed, wasFixed } = fixFilenameEncoding(path);
+      const { fixed, wasFixed, source } = fixFilenameEncoding(entry, detection);
+      nameSource = source;
       if (wasFixed) {
         encodingIssues++;
         issues.push({
           type: 'encoding',
+          code: source === 'unicode_path' ? 'unicode_path_field' : 'legacy_encoding',
+          action: 'renamed',
           originalPath: path,
           fixedPath: fixed,
-          description: '파일명 인코딩 수정됨',
+          nameSource: source,
         });
         finalPath = fixed;
       }
+
+      const { fixed: unwrapped, layers } = fixDoubleEncoding(finalPath);
+      if (layers > 0) {
+        mojibakeIssues++;
+        issues.push({
+          type: 'mojibake',
+          code: 'double_encoding',
+          action: 'renamed',
+          originalPath: path,
+          fixedPath: unwrapped,
+          layers,
+        });
+        finalPath = unwrapped;
+      }
     }
 
-    // Copy file to target ZIP
-    const content = await zipEntry.async('uint8array');
-    targetZip.file(finalPath, content);
-    processedFiles++;
-  }
+    // Normalize decomposed Unicode if needed
+    if (opts.normalizeUnicode) {
+      const { normalized, wasNormalized } = normalizeFilename(finalPath);
+      if (wasNormalized) {
+        normalizationIssues++;
+        issues.push({
+          type: 'normalization',
+          code: 'decomposed_unicode',
+          action: 'renamed',
+          originalPath: path,
+          fixedPath: normalized,
+        });
+        finalPath = normalized;
+      }
+    }
 
-  // Calculate encoding confidence
-  let encodingConfidence = 0;
-  if (macosArtifacts > 0 || dsStoreFiles > 0) {
-    encodingConfidence += 40;
-  }
-  if (encodingIssues > 0) {
-    encodingConfidence += Math.min(60, encodingIssues * 15);
+    // A name given by hand replaces the fixed one
+    const renamed = renamedByOverride(path, finalPath, issues, opts);
+    if (renamed !== null) finalPath = renamed;
+
+    const securePath = secureEntryPath(finalPath, path, opts, issues, () => unsafePathIssues++);
+    if (securePath === null) continue;
+    if (inflate && (await checkSymlink(archive.data, entry, securePath, opts))) {
+      unsafePathIssues++;
+      issues.push({
+        type: 'unsafe_path',
+        code: 'unsafe_path',
+        action: 'removed',
+        originalPath: path,
+        unsafeProblems: ['symlink_escape'],
+      });
+      continue;
+    }
+
+    nameSources[nameSource]++;
+    const item: PlannedEntry<ZipEntryRecord> = {
+      source: entry,
+      originalPath: path,
+      finalPath: securePath,
+      lastModified: entry.lastModified,
+      isDirectory: false,
+      size: entry.uncompressedSize,
+    };
+    planned.push(item);
+    if (renamed !== null) namedByHand.add(item);
   }
 
-  const blob = await targetZip.generateAsync({
-    type: 'blob',
-    compression: 'DEFLATE',
-    compressionOptions: { level: 6 },
-  });
+  renamePlannedForWindows(planned, namedByHand, opts, issues, () => windowsNameIssues++);
 
   return {
-    blob,
+    planned,
     report: {
+      format: archive.format,
       totalFiles,
       issues,
       macosArtifacts,
       dsStoreFiles,
       encodingIssues,
+      mojibakeIssues,
+      normalizationIssues,
+      windowsNameIssues,
+      unsafePathIssues,
       hiddenFiles,
-      encodingConfidence: Math.min(100, encodingConfidence),
+      encryptedFiles,
+      detectedEncoding: detection?.label ?? null,
+      encodingScore: detection?.score ?? 0,
+      nameSources,
+      bytesCopied: 0,
+      bytesRecompressed: 0,
+      collisions: [],
+      scan,
+      nested: [],
+      entries: [], // Filled in once collisions are known
     },
   };
 }
 
+function archiveReview(archive: ArchiveContents): Omit<ReviewEntry, 'fixedPath' | 'issueTypes'>[] {
+  return archive.entries
+    .filter(entry => !entry.isDirectory)
+    .map(entry => ({
+      originalPath: decodeUTF8Lenient(entry.rawName),
+      size: entry.uncompressedSize,
+      crc32: storedCrc32(entry, archive.format),
+    }));
+}
+
+// Analyze ZIP file and generate diagnostic report
+export async function analyzeZip(
+  file: File,
+  options: Partial<ProcessingOptions> = {},
+  control: TaskControl = {}
+): Promise<DiagnosticReport> {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const archive = await openArchive(file, opts);
+  const scan = await scanArchive(archive.data, archive.entries, opts.limits);
+  // Over the limits the archive is only described from its central directory: symlink targets and nested ZIPs
+  // would have to be inflated to look inside
+  const inflate = scan.violations.length === 0;
+  const detection = resolveEncoding(legacyNames(archive.entries), opts.forcedEncoding, opts.languageHint);
+  const { planned, report } = await planArchive(archive, detection, scan, opts, inflate);
+  const { kept, collisions } = reportNameCollisions(planned, opts.collisions, report.issues);
+
+  // Look inside nested ZIPs with the same options
+  const progress = trackProgress(kept.map(item => item.size), control);
+  const nested: NestedArchive[] = [];
+  for (const { source: entry, originalPath, finalPath, isDirectory } of kept) {
+    progress.next();
+    if (inflate && !isDirectory && isRepackableZip(entry, finalPath, opts)) {
+      nested.push(await analyzeNestedZip(archive.data, entry, finalPath, originalPath, opts, control));
+    }
+  }
+  progress.finish();
+
+  // The plan records what processing will do, nothing has been done yet
+  const issues = report.issues.map(issue => ({ ...issue, action: 'detected' as const }));
+  return { ...report, issues, collisions, nested, entries: reviewEntries(archiveReview(archive), kept, issues) };
+}
+
+// Read entry names once so the preview can be re-decoded without touching the archive again
+export async function readEntryNames(file: File): Promise<ZipEntryRecord[]> {
+  const { entries } = await openArchive(file, DEFAULT_OPTIONS);
+  return entries.filter(entry => !entry.isDirectory);
+}
+
+// Decode every entry name under the given encoding (null = auto-detect) for the live preview
+export function previewEntryNames(
+  entries: ZipEntryRecord[],
+  forcedEncoding: string | null,
+  languageHint: string | null = null
+): EntryNamePreview[] {
+  const detection = resolveEncoding(legacyNames(entries), forcedEncoding, languageHint);
+  return entries.map(entry => {
+    const { fixed, wasFixed, source } = fixFilenameEncoding(entry, detection);
+    return { originalPath: decodeUTF8Lenient(entry.rawName), previewPath: fixed, changed: wasFixed, source };
+  });
+}
+
+// Nested archives
+
+// Only plain ZIPs are repacked: JARs, APKs and EPUBs carry signatures or a layout that has to stay as it is.
+// Encrypted inner ZIPs are copied too, their data never leaves the encryption.
+const REPACKABLE_ZIP = /\.zip$/i;
+
+function isRepackableZip(entry: ZipEntryRecord, path: string, opts: ProcessingOptions): boolean {
+  return opts.nestedDepth > 0 && !entry.encryption && REPACKABLE_ZIP.test(path);
+}
+
+// Overrides are dropped, their paths are those of the outer archive, and only the outer archive gets a report
+function nestedOptions(opts: ProcessingOptions): ProcessingOptions {
+  return { ...opts, nestedDepth: opts.nestedDepth - 1, overrides: {}, embedReport: false };
+}
+
+async function openNestedZip(file: Blob, entry: ZipEntryRecord, name: string): Promise<File> {
+  const content = await new Response(await openEntryStream(file, entry)).blob();
+  return new File([content], name, { lastModified: entry.lastModified.getTime() });
+}
+
+// Inner archives are reported on, not stopped at: anything but cancellation or an abort on name collisions
+// leaves the inner ZIP as it is, with the reason in the report
+function nestedFailure(err: unknown, control: TaskControl, path: string, originalPath: string): NestedArchive {
+  if (control.signal?.aborted || err instanceof NameCollisionError) throw err;
+  return { path, originalPath, report: null, error: err instanceof Error ? err.message : String(err) };
+}
+
+async function analyzeNestedZip(
+  file: Blob,
+  entry: ZipEntryRecord,
+  path: string,
+  originalPath: string,
+  opts: ProcessingOptions,
+  control: TaskControl
+): Promise<NestedArchive> {
+  try {
+    const inner = await openNestedZip(file, entry, path);
+    return { path, originalPath, report: await analyzeZip(inner, nestedOptions(opts), { signal: control.signal }) };
+  } catch (err) {
+    return nestedFailure(err, control, path, originalPath);
+  }
+}
+
+// Fix the names inside an inner ZIP by processing it like the outer one; blob is null when it is kept as is
+async function repackNestedZip(
+  file: Blob,
+  entry: ZipEntryRecord,
+  path: string,
+  originalPath: string,
+  opts: ProcessingOptions,
+  control: TaskControl
+): Promise<{ archive: NestedArchive; blob: Blob | null }> {
+  try {
+    const inner = await openNestedZip(file, entry, path);
+    const { sink, getBlob } = createBlobSink();
+    const report = await writeToSink(sink, output =>
+      writeFixedZip(inner, output, nestedOptions(opts), { signal: control.signal })
+    );
+    return { archive: { path, originalPath, report }, blob: getBlob() };
+  } catch (err) {
+    return { archive: nestedFailure(err, control, path, originalPath), blob: null };
+  }
+}
+
+// Process ZIP file and create a fixed version
+export async function processZip(
+  file: File,
+  options: Partial<ProcessingOptions> = {},
+  control: TaskControl = {}
+): Promise<{ blob: Blob; report: DiagnosticReport }> {
+  const { sink, getBlob } = createBlobSink();
+  const report = await processZipToStream(file, sink, options, control);
+  return { blob: getBlob(), report };
+}
+
+// Process ZIP file and stream the fixed version into a sink (File System Access API, service worker download, ...).
+// Entry data is copied through compressed, so memory use does not grow with the archive.
+export async function processZipToStream(
+  file: File,
+  sink: WritableStream<Uint8Array>,
+  options: Partial<ProcessingOptions> = {},
+  control: TaskControl = {}
+): Promise<DiagnosticReport> {
+  return writeToSink(sink, output => writeFixedZip(file, output, { ...DEFAULT_OPTIONS, ...options }, control));
+}
+
+async function writeFixedZip(
+  file: File,
+  output: ZipWriter,
+  opts: ProcessingOptions,
+  control: TaskControl
+): Promise<DiagnosticReport> {
+  const archive = await openArchive(file, opts);
+  const { entries, comment: archiveComment } = archive;
+  const scan = await guardArchive(archive.data, entries, opts);
+  // Check the password before anything is written
+  const encryptedEntries = entries.filter(entry => entry.encryption && !entry.isDirectory);
+  if (encryptedEntries.length > 0) {
+    if (opts.password === null) throw new PasswordError('Password required');
+    await verifyPassword(archive.data, encryptedEntries, opts.password);
+  }
+  const detection = resolveEncoding(legacyNames(entries), opts.forcedEncoding, opts.languageHint);
+  const { planned, report: plan } = await planArchive(archive, detection, scan, opts, true);
+  const { kept, collisions } = resolveNameCollisions(planned, opts.collisions, plan.issues);
+  const progress = trackProgress(kept.map(item => item.size), control);
+  let bytesCopied = 0;
+  let bytesRecompressed = 0;
+  const nested: NestedArchive[] = [];
+
+  for (const { source: entry, originalPath, finalPath, isDirectory } of kept) {
+    progress.next();
+    if (isDirectory) {
+      await output.addEntry(entryHeader(finalPath, '', entryMetadata(entry), opts), EMPTY_ENTRY_DATA, new Uint8Array(0));
+      continue;
+    }
+
+    const comment = opts.fixEncoding ? decodeEntryComment(entry, detection) : decodeUTF8Lenient(entry.rawComment);
+    const header = entryHeader(finalPath, comment, entryMetadata(entry), opts);
+    if (isRepackableZip(entry, finalPath, opts)) {
+      const repacked = await repackNestedZip(archive.data, entry, finalPath, originalPath, opts, control);
+      nested.push(repacked.archive);
+      if (repacked.blob) {
+        await addBlob(output, header, repacked.blob);
+        bytesRecompressed += entry.uncompressedSize;
+        continue;
+      }
+    }
+    if (entry.encryption && opts.password !== null) {
+      const target = encryptionTarget(entry, opts.outputEncryption, opts.password);
+      const encrypted = await reencryptEntry(archive.data, entry, header, target);
+      await output.addEntry(encrypted.header, encrypted.info, progress.track(encrypted.data, encrypted.info.compressedSize));
+      bytesCopied += entry.compressedSize;
+    } else if (opts.dataMode === 'copy' && archive.copyable) {
+      // Copy the compressed data to the target ZIP unchanged, only the headers are rewritten
+      const stream = progress.track(await openRawEntryStream(archive.data, entry), entry.compressedSize);
+      await output.addEntry(header, entry, stream);
+      bytesCopied += entry.compressedSize;
+    } else if (entry.uncompressedSize <= BUFFERED_FILE_LIMIT) {
+      const { data, ...info } = await compressContent(await readEntryData(archive.data, entry));
+      await output.addEntry(header, info, data);
+      bytesRecompressed += entry.uncompressedSize;
+    } else {
+      const stream = progress.track(await openEntryStream(archive.data, entry), entry.uncompressedSize);
+      await output.addStream(header, stream, entry.uncompressedSize);
+      bytesRecompressed += entry.uncompressedSize;
+    }
+  }
+
+  progress.finish();
+
+  const report: DiagnosticReport = {
+    ...plan,
+    bytesCopied,
+    bytesRecompressed,
+    collisions,
+    nested,
+    entries: reviewEntries(archiveReview(archive), kept, plan.issues),
+  };
+  if (opts.embedReport) {
+    await addReport(output, kept, report, { sourceName: file.name, sourceSize: file.size, options: opts, stage: 'processing' });
+  }
+
+  const comment = opts.fixEncoding
+    ? decodeEntryText(archiveComment, false, null, detection).text
+    : decodeUTF8Lenient(archiveComment);
+  await output.close(encodeArchiveComment(comment, opts));
+
+  return report;
+}
+
+// The picked folder, named by the first part its files share
+export function folderName(files: FolderFile[]): string {
+  const first = files[0]?.path.split('/')[0] ?? '';
+  return first && files.every(({ path }) => path.startsWith(`${first}/`)) ? first : 'folder';
+}
+
+// Pair picked files with their relative path (webkitRelativePath does not survive postMessage)
+export function toFolderFiles(files: FileList | File[]): FolderFile[] {
+  return Array.from(files).map(file => ({
+    file,
+    path: (file as File & { webkitRelativePath?: string }).webkitRelativePath || file.name,
+  }));
+}
+
 // Create ZIP from files (for folder upload feature)
 export async function createZipFromFiles(
-  files: FileList | File[],
-  options: Partial<ProcessingOptions> = {}
+  files: FolderFile[],
+  options: Partial<ProcessingOptions> = {},
+  control: TaskControl = {}
 ): Promise<{ blob: Blob; report: DiagnosticReport }> {
-  const opts = { ...DEFAULT_OPTIONS, ...options };
-  const zip = new JSZip();
+  const { sink, getBlob } = createBlobSink();
+  const report = await createZipFromFilesToStream(files, sink, options, control);
+  return { blob: getBlob(), report };
+}
+
+// Create ZIP from files, streaming it into a sink
+export async function createZipFromFilesToStream(
+  files: FolderFile[],
+  sink: WritableStream<Uint8Array>,
+  options: Partial<ProcessingOptions> = {},
+  control: TaskControl = {}
+): Promise<DiagnosticReport> {
+  return writeToSink(sink, output => writeFolderZip(files, output, { ...DEFAULT_OPTIONS, ...options }, control));
+}
+
+// Work out the final names of a folder's files with the same checks as archive entries. Analysis and packing
+// share it, so the report of a folder shows the same issues before and after packing.
+export function planFolder(files: FolderFile[], opts: ProcessingOptions): { planned: PlannedEntry<FolderFile>[]; report: DiagnosticReport } {
+  const recovered = files.map(({ path }) => recoverNameBytes(path));
+  const detection = detectFolderEncoding(recovered.filter((bytes): bytes is Uint8Array => bytes !== null), opts);
+  const planned: PlannedEntry<FolderFile>[] = [];
+  const namedByHand = new Set<PlannedEntry<FolderFile>>();
   const issues: DiagnosticIssue[] = [];
+  let macosArtifacts = 0;
   let dsStoreFiles = 0;
+  let encodingIssues = 0;
+  let mojibakeIssues = 0;
+  let normalizationIssues = 0;
+  let windowsNameIssues = 0;
+  let unsafePathIssues = 0;
   let hiddenFiles = 0;
-  let totalFiles = 0;
-  let processedFiles = 0;
+  const nameSources = emptyNameSources();
 
-  const fileArray = Array.from(files);
+  for (const [index, { file, path: relativePath }] of files.entries()) {
+    if (excludedByOverride(relativePath, opts, issues)) continue;
 
-  for (const file of fileArray) {
-    // Get relative path from webkitRelativePath or use filename
-    const relativePath = (file as File & { webkitRelativePath?: string }).webkitRelativePath || file.name;
-    totalFiles++;
+    // Check for macOS artifacts left over from an earlier extraction
+    if (isMacOSArtifact(relativePath)) {
+      macosArtifacts++;
+      if (removedByOptions(relativePath, opts.removeMAcOSArtifacts, opts)) {
+        issues.push({
+          type: 'macos_artifact',
+          code: 'macos_artifact',
+          action: 'removed',
+          originalPath: relativePath,
+        });
+        continue;
+      }
+    }
 
     // Check for .DS_Store
     if (isDSStore(relativePath)) {
       dsStoreFiles++;
-      if (opts.removeDSStore) {
+      if (removedByOptions(relativePath, opts.removeDSStore, opts)) {
         issues.push({
           type: 'ds_store',
+          code: 'ds_store',
+          action: 'removed',
           originalPath: relativePath,
-          description: '제외됨: .DS_Store 파일',
         });
         continue;
       }
@@ -394,38 +2175,174 @@ export async function createZipFromFiles(
     // Check for hidden files
     if (isHiddenFile(relativePath)) {
       hiddenFiles++;
-      if (opts.removeHiddenFiles) {
+      if (removedByOptions(relativePath, opts.removeHiddenFiles, opts)) {
         issues.push({
           type: 'hidden_file',
+          code: 'hidden_file',
+          action: 'removed',
           originalPath: relativePath,
-          description: '제외됨: 숨김 파일',
         });
         continue;
       }
     }
 
-    // Read file content
-    const content = await file.arrayBuffer();
-    zip.file(relativePath, content);
-    processedFiles++;
-  }
+    // Fix names that were extracted with the wrong code page, or encoded twice
+    let finalPath = relativePath;
+    let nameSource: NameSource = 'utf8';
+    if (opts.fixEncoding) {
+      const { fixed, wasFixed, source } = fixFolderNameEncoding(relativePath, recovered[index], detection);
+      nameSource = source;
+      if (wasFixed) {
+        encodingIssues++;
+        issues.push({
+          type: 'encoding',
+          code: 'legacy_encoding',
+          action: 'renamed',
+          originalPath: relativePath,
+          fixedPath: fixed,
+          nameSource: source,
+        });
+        finalPath = fixed;
+      }
 
-  const blob = await zip.generateAsync({
-    type: 'blob',
-    compression: 'DEFLATE',
-    compressionOptions: { level: 6 },
-  });
+      const { fixed: unwrapped, layers } = fixDoubleEncoding(finalPath);
+      if (layers > 0) {
+        mojibakeIssues++;
+        issues.push({
+          type: 'mojibake',
+          code: 'double_encoding',
+          action: 'renamed',
+          originalPath: relativePath,
+          fixedPath: unwrapped,
+          layers,
+        });
+        finalPath = unwrapped;
+      }
+    }
+
+    // Normalize decomposed Unicode if needed
+    if (opts.normalizeUnicode) {
+      const { normalized, wasNormalized } = normalizeFilename(finalPath);
+      if (wasNormalized) {
+        normalizationIssues++;
+        issues.push({
+          type: 'normalization',
+          code: 'decomposed_unicode',
+          action: 'renamed',
+          originalPath: relativePath,
+          fixedPath: normalized,
+        });
+        finalPath = normalized;
+      }
+    }
+
+    // A name given by hand replaces the fixed one
+    const renamed = renamedByOverride(relativePath, finalPath, issues, opts);
+    if (renamed !== null) finalPath = renamed;
+
+    const securePath = secureEntryPath(finalPath, relativePath, opts, issues, () => unsafePathIssues++);
+    if (securePath === null) continue;
+
+    nameSources[nameSource]++;
+    const item: PlannedEntry<FolderFile> = {
+      source: files[index],
+      originalPath: relativePath,
+      finalPath: securePath,
+      lastModified: new Date(file.lastModified),
+      isDirectory: false,
+      size: file.size,
+    };
+    planned.push(item);
+    if (renamed !== null) namedByHand.add(item);
+  }
+  renamePlannedForWindows(planned, namedByHand, opts, issues, () => windowsNameIssues++);
 
   return {
-    blob,
+    planned,
     report: {
-      totalFiles,
+      format: null,
+      totalFiles: files.length,
       issues,
-      macosArtifacts: 0,
+      macosArtifacts,
       dsStoreFiles,
-      encodingIssues: 0,
+      encodingIssues,
+      mojibakeIssues,
+      normalizationIssues,
+      windowsNameIssues,
+      unsafePathIssues,
       hiddenFiles,
-      encodingConfidence: 0,
+      encryptedFiles: 0,
+      detectedEncoding: detection?.label ?? null,
+      encodingScore: detection?.score ?? 0,
+      nameSources,
+      bytesCopied: 0,
+      bytesRecompressed: 0,
+      collisions: [],
+      scan: null,
+      nested: [],
+      entries: [], // Filled in once collisions are known
     },
   };
 }
+
+function folderReview(files: FolderFile[]): Omit<ReviewEntry, 'fixedPath' | 'issueTypes'>[] {
+  return files.map(({ file, path }) => ({ originalPath: path, size: file.size, crc32: null }));
+}
+
+// Analyze picked folder files and generate diagnostic report
+export async function analyzeFolder(
+  files: FolderFile[],
+  options: Partial<ProcessingOptions> = {},
+  control: TaskControl = {}
+): Promise<DiagnosticReport> {
+  control.signal?.throwIfAborted();
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const { planned, report } = planFolder(files, opts);
+  const { kept, collisions } = reportNameCollisions(planned, opts.collisions, report.issues);
+  // The plan records what packing will do, nothing has been done yet
+  const issues = report.issues.map(issue => ({ ...issue, action: 'detected' as const }));
+  return { ...report, issues, collisions, entries: reviewEntries(folderReview(files), kept, issues) };
+}
+
+async function writeFolderZip(
+  files: FolderFile[],
+  output: ZipWriter,
+  opts: ProcessingOptions,
+  control: TaskControl
+): Promise<DiagnosticReport> {
+  const { planned, report } = planFolder(files, opts);
+  const { kept, collisions } = resolveNameCollisions(planned, opts.collisions, report.issues);
+  const progress = trackProgress(kept.map(item => item.size), control);
+  let bytesRecompressed = 0;
+
+  for (const { source: { file, mode }, finalPath, lastModified } of kept) {
+    progress.next();
+    // Files read from a disk keep their permissions, exec bits included; picked files have none to keep
+    const meta: EntryMetadata = {
+      lastModified,
+      unixModified: lastModified,
+      host: mode === undefined ? HOST_DOS : HOST_UNIX,
+      externalAttributes: mode === undefined ? 0 : ((S_IFREG | (mode & 0o7777)) << 16) >>> 0,
+      isDirectory: false,
+    };
+    await addBlob(output, entryHeader(finalPath, '', meta, opts), file, progress);
+    bytesRecompressed += file.size;
+  }
+
+  progress.finish();
+
+  const folderReport = {
+    ...report,
+    bytesRecompressed,
+    collisions,
+    entries: reviewEntries(folderReview(files), kept, report.issues),
+  };
+  if (opts.embedReport) {
+    const sourceSize = files.reduce((sum, { file }) => sum + file.size, 0);
+    await addReport(output, kept, folderReport, { sourceName: folderName(files), sourceSize, options: opts, stage: 'processing' });
+  }
+
+  await output.close();
+
+  return folderReport;
+}
@@ -0,0 +1,114 @@
+// Main-thread side of the ZIP worker: same signatures as zip-processor, but the work runs in the worker
+import type { DiagnosticReport, FolderFile, ProcessingOptions, TaskControl } from './zip-processor';
+import type { WorkerRequest, WorkerResponse, WorkerResult, WorkerTask } from './zip-worker';
+
+let worker: Worker | null = null;
+let nextTaskId = 0;
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('./zip-worker.ts', import.meta.url), { type: 'module' });
+  }
+  return worker;
+}
+
+function runTask(task: WorkerTask, control: TaskControl, transfer: Transferable[] = []): Promise<WorkerResult> {
+  const target = getWorker();
+  const id = nextTaskId++;
+  const send = (request: WorkerRequest, transferList: Transferable[] = []) => target.postMessage(request, transferList);
+
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      target.removeEventListener('message', onMessage);
+      control.signal?.removeEventListener('abort', onAbort);
+    };
+
+    const onMessage = (event: MessageEvent<WorkerResponse>) => {
+      const response = event.data;
+      if (response.id !== id) return;
+      if (response.type === 'progress') {
+        control.onProgress?.(response.progress);
+        return;
+      }
+      cleanup();
+      if (response.type === 'result') {
+        resolve(response.result);
+      } else if (response.name === 'AbortError') {
+        reject(new DOMException(response.message, 'AbortError'));
+      } else {
+        // Keep the name so callers can tell failures apart (e.g. NameCollisionError)
+        reject(Object.assign(new Error(response.message), { name: response.name }));
+      }
+    };
+
+    // Settle right away; the worker stops at the next entry boundary
+    const onAbort = () => {
+      send({ id, type: 'abort' });
+      cleanup();
+      reject(control.signal?.reason ?? new DOMException('Aborted', 'AbortError'));
+    };
+
+    if (control.signal?.aborted) {
+      reject(control.signal.reason);
+      return;
+    }
+    target.addEventListener('message', onMessage);
+    control.signal?.addEventListener('abort', onAbort);
+    send({ id, type: 'run', task }, transfer);
+  });
+}
+
+export async function analyzeZipInWorker(
+  file: File,
+  options: Partial<ProcessingOptions> = {},
+  control: TaskControl = {}
+): Promise<DiagnosticReport> {
+  return (await runTask({ type: 'analyze', file, options }, control)) as DiagnosticReport;
+}
+
+export async function analyzeFolderInWorker(
+  files: FolderFile[],
+  options: Partial<ProcessingOptions> = {},
+  control: TaskControl = {}
+): Promise<DiagnosticReport> {
+  return (await runTask({ type: 'analyzeFolder', files, options }, control)) as DiagnosticReport;
+}
+
+export async function processZipInWorker(
+  file: File,
+  options: Partial<ProcessingOptions> = {},
+  control: TaskControl = {}
+): Promise<{ blob: Blob; report: DiagnosticReport }> {
+  return (await runTask({ type: 'process', file, options }, control)) as { blob: Blob; report: DiagnosticReport };
+}
+
+export async function processZipToStreamInWorker(
+  file: File,
+  sink: WritableStream<Uint8Array>,
+  options: Partial<ProcessingOptions> = {},
+  control: TaskControl = {}
+): Promise<DiagnosticReport> {
+  return (await runTask({ type: 'process', file, options, sink }, control, [sink])) as DiagnosticReport;
+}
+
+export async function createZipFromFilesInWorker(
+  files: FolderFile[],
+  options: Partial<ProcessingOptions> = {},
+  control: TaskControl = {}
+): Promise<{ blob: Blob; report: DiagnosticReport }> {
+  return (await runTask({ type: 'pack', files, options }, control)) as { blob: Blob; report: DiagnosticReport };
+}
+
+export async function createZipFromFilesToStreamInWorker(
+  files: FolderFile[],
+  sink: WritableStream<Uint8Array>,
+  options: Partial<ProcessingOptions> = {},
+  control: TaskControl = {}
+): Promise<DiagnosticReport> {
+  return (await runTask({ type: 'pack', files, options, sink }, control, [sink])) as DiagnosticReport;
+}
+
+// True when a task ended because its signal was aborted, not because it failed
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError';
+}
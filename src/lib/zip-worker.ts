@@ -0,0 +1,92 @@
+// Dedicated worker running the ZIP pipeline off the main thread.
+// Large archives would otherwise freeze the page while every entry is read and written.
+import {
+  analyzeZip,
+  analyzeFolder,
+  processZip,
+  processZipToStream,
+  createZipFromFiles,
+  createZipFromFilesToStream,
+  DiagnosticReport,
+  FolderFile,
+  ProcessingOptions,
+  ProcessingProgress,
+} from './zip-processor';
+
+// With a sink (transferred along with the task) the archive is streamed into it and only the report comes back
+export type WorkerTask =
+  | { type: 'analyze'; file: File; options: Partial<ProcessingOptions> }
+  | { type: 'analyzeFolder'; files: FolderFile[]; options: Partial<ProcessingOptions> }
+  | { type: 'process'; file: File; options: Partial<ProcessingOptions>; sink?: WritableStream<Uint8Array> }
+  | { type: 'pack'; files: FolderFile[]; options: Partial<ProcessingOptions>; sink?: WritableStream<Uint8Array> };
+
+export type WorkerRequest = { id: number; type: 'run'; task: WorkerTask } | { id: number; type: 'abort' };
+
+export type WorkerResult = DiagnosticReport | { blob: Blob; report: DiagnosticReport };
+
+export type WorkerResponse =
+  | { id: number; type: 'progress'; progress: ProcessingProgress }
+  | { id: number; type: 'result'; result: WorkerResult }
+  | { id: number; type: 'error'; name: string; message: string };
+
+// Progress is posted at most this often, archives can hold hundreds of thousands of entries
+const PROGRESS_INTERVAL_MS = 100;
+
+const controllers = new Map<number, AbortController>();
+
+function post(response: WorkerResponse) {
+  self.postMessage(response);
+}
+
+async function run(id: number, task: WorkerTask) {
+  const controller = new AbortController();
+  controllers.set(id, controller);
+
+  let lastProgress = 0;
+  const control = {
+    signal: controller.signal,
+    onProgress: (progress: ProcessingProgress) => {
+      const now = Date.now();
+      if (now - lastProgress < PROGRESS_INTERVAL_MS && progress.entriesDone < progress.entriesTotal) return;
+      lastProgress = now;
+      post({ id, type: 'progress', progress });
+    },
+  };
+
+  try {
+    let result: WorkerResult;
+    switch (task.type) {
+      case 'analyze':
+        result = await analyzeZip(task.file, task.options, control);
+        break;
+      case 'analyzeFolder':
+        result = await analyzeFolder(task.files, task.options, control);
+        break;
+      case 'process':
+        result = task.sink
+          ? await processZipToStream(task.file, task.sink, task.options, control)
+          : await processZip(task.file, task.options, control);
+        break;
+      case 'pack':
+        result = task.sink
+          ? await createZipFromFilesToStream(task.files, task.sink, task.options, control)
+          : await createZipFromFiles(task.files, task.options, control);
+        break;
+    }
+    post({ id, type: 'result', result });
+  } catch (err) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    post({ id, type: 'error', name: error.name, message: error.message });
+  } finally {
+    controllers.delete(id);
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'run') {
+    run(request.id, request.task);
+  } else {
+    controllers.get(request.id)?.abort();
+  }
+});